@@ -0,0 +1,103 @@
+// --- Hyperparameter sweep from the command line ---
+// npm run sweep -- --alpha 0.05,0.1,0.5 --gamma 0.8,0.9,0.99 --seeds 5 --episodes 300
+// The maze is a share code (--maze, as copied from the app's share link) or a
+// generated one (--generator, --size, --maze-seed). --json prints the rows as JSON.
+import { parseArgs } from 'node:util';
+import { DEFAULT_ENV, type MazeLayout } from '../src/engine/gridWorld';
+import { ALGORITHMS } from '../src/engine/algorithms';
+import { DEFAULT_EXPLORATION } from '../src/engine/exploration';
+import { FINAL_WINDOW, SWEEP_AXES, parseValues, runSweep, type ExperimentRow, type Stat, type SweepValues } from '../src/engine/experiments';
+import { GENERATORS, generateMaze } from '../src/engine/mazeGen';
+import { SessionError, decodeMaze } from '../src/engine/session';
+
+const { values: args } = parseArgs({
+  options: {
+    alpha: { type: 'string', default: '0.1' },
+    gamma: { type: 'string', default: '0.9' },
+    epsilon: { type: 'string', default: '0.8' },
+    algorithm: { type: 'string', default: 'Q_LEARNING' },
+    seeds: { type: 'string', default: '5' },
+    episodes: { type: 'string', default: '300' },
+    seed: { type: 'string', default: '42' },
+    heuristic: { type: 'boolean', default: false },
+    maze: { type: 'string' },
+    generator: { type: 'string', default: 'BACKTRACKER' },
+    size: { type: 'string', default: '15' },
+    'maze-seed': { type: 'string', default: '1' },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`sweep: ${message}`);
+  process.exit(1);
+};
+
+const integer = (key: keyof typeof args, min: number) => {
+  const v = Number(args[key]);
+  return Number.isInteger(v) && v >= min ? v : fail(`--${key} must be an integer >= ${min}`);
+};
+
+const sweep = Object.fromEntries(SWEEP_AXES.map(({ id }) => {
+  const values = parseValues(String(args[id]));
+  return [id, values ?? fail(`--${id} must be a list of numbers between 0 and 1`)];
+})) as SweepValues;
+
+const algorithm = ALGORITHMS.find(a => a.id === args.algorithm)?.id
+  ?? fail(`--algorithm must be one of ${ALGORITHMS.map(a => a.id).join(', ')}`);
+
+const mazeLayout = (): MazeLayout => {
+  if (args.maze) {
+    try {
+      return decodeMaze(args.maze);
+    } catch (err) {
+      if (!(err instanceof SessionError)) throw err;
+      return fail(`--maze: ${err.message}`);
+    }
+  }
+  const generator = GENERATORS.find(g => g.id === args.generator)?.id
+    ?? fail(`--generator must be one of ${GENERATORS.map(g => g.id).join(', ')}`);
+  const size = integer('size', 5);
+  const corner = size - 2;
+  return generateMaze({
+    generator,
+    width: size,
+    height: size,
+    seed: integer('maze-seed', 0),
+    density: 0.3,
+    start: { x: 1, y: 1 },
+    goal: { x: corner, y: corner },
+  }).layout;
+};
+
+const setup = {
+  layout: mazeLayout(),
+  env: DEFAULT_ENV,
+  algorithm,
+  exploration: DEFAULT_EXPLORATION,
+  useHeuristic: args.heuristic,
+  episodes: integer('episodes', 1),
+  seeds: integer('seeds', 1),
+  baseSeed: integer('seed', 0),
+};
+
+const rows = runSweep(setup, sweep, (_, done, total) => console.error(`config ${done}/${total}`));
+
+// --- Output ---
+const stat = (s: Stat | null, digits: number) => s ? `${s.mean.toFixed(digits)} ± ${s.std.toFixed(digits)}` : '—';
+const columns: [string, (row: ExperimentRow) => string][] = [
+  ['alpha', r => String(r.config.alpha)],
+  ['gamma', r => String(r.config.gamma)],
+  ['epsilon', r => String(r.config.epsilon)],
+  ['converged', r => `${r.converged}/${r.runs}`],
+  ['episodes to converge', r => stat(r.convergence, 1)],
+  [`return (last ${FINAL_WINDOW})`, r => stat(r.finalReturn, 1)],
+];
+
+if (args.json) {
+  console.log(JSON.stringify(rows, null, 2));
+} else {
+  const cells = [columns.map(([title]) => title), ...rows.map(row => columns.map(([, cell]) => cell(row)))];
+  const widths = columns.map((_, i) => Math.max(...cells.map(line => line[i].length)));
+  cells.forEach(line => console.log(line.map((cell, i) => cell.padEnd(widths[i])).join('  ')));
+}
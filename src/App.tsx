@@ -1,549 +1,1688 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Play, Pause, RotateCcw, Trash2, Settings, Car, Flag, Info, Compass } from 'lucide-react';
-
-// --- Constants & Types ---
-const GRID_SIZE = 15;
-const ACTIONS = [
-  { dx: 0, dy: -1, name: 'UP' },    // 0
-  { dx: 1, dy: 0, name: 'RIGHT' },  // 1
-  { dx: 0, dy: 1, name: 'DOWN' },   // 2
-  { dx: -1, dy: 0, name: 'LEFT' }   // 3
-];
-
-const REWARD = {
-  GOAL: 100,
-  WALL: -100,
-  STEP: -1,
-};
-
-type CellType = 'EMPTY' | 'WALL' | 'START' | 'GOAL';
-type QTable = number[][][]; // [y][x][actionIndex]
-
-// --- Helper: Initialize Q-Table ---
-// Modified to support Heuristic (Greedy) Initialization
-const initQTable = (size: number, useHeuristic: boolean, goal: {x: number, y: number}): QTable => {
-  const table = [];
-  for (let y = 0; y < size; y++) {
-    const row = [];
-    for (let x = 0; x < size; x++) {
-      const actions = [];
-      for (let a = 0; a < 4; a++) {
-        if (!useHeuristic) {
-           // Standard RL: Start with 0 (Tabula Rasa)
-           actions.push(0); 
-        } else {
-           // Heuristic: Initialize with negative distance to goal
-           // This acts as a "gradient" pulling the agent to the goal
-           const dx = ACTIONS[a].dx;
-           const dy = ACTIONS[a].dy;
-           const nx = x + dx;
-           const ny = y + dy;
-           
-           // Simple Euclidean distance
-           const dist = Math.sqrt(Math.pow(nx - goal.x, 2) + Math.pow(ny - goal.y, 2));
-           
-           // We use negative distance because Q-Learning maximizes value.
-           // Being closer (smaller distance) means a "less negative" (higher) value.
-           // We multiply by 1.5 to make the gradient steep enough to overcome step costs.
-           actions.push(-dist * 2);
-        }
-      }
-      row.push(actions);
-    }
-    table.push(row);
-  }
-  return table;
-};
-
-// --- Helper: Get max Q value for a cell ---
-const getMaxQ = (qValues: number[]) => Math.max(...qValues);
-
-// --- Helper: Get best action index ---
-const getBestAction = (qValues: number[]) => {
-  let maxVal = -Infinity;
-  let maxIndices: number[] = [];
-  
-  qValues.forEach((val, idx) => {
-    if (val > maxVal) {
-      maxVal = val;
-      maxIndices = [idx];
-    } else if (val === maxVal) {
-      maxIndices.push(idx);
-    }
-  });
-  
-  // Random tie-breaking
-  return maxIndices[Math.floor(Math.random() * maxIndices.length)];
-};
-
-const App = () => {
-  // --- State ---
-  const [grid, setGrid] = useState<CellType[][]>([]);
-  const [carPos, setCarPos] = useState({ x: 1, y: 1 });
-  const [startPos, setStartPos] = useState({ x: 1, y: 1 });
-  const [goalPos, setGoalPos] = useState({ x: GRID_SIZE - 2, y: GRID_SIZE - 2 });
-  
-  // Loop Control
-  const [isRunning, setIsRunning] = useState(false);
-  const [speed, setSpeed] = useState(50); // ms delay
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Hyperparameters
-  const [epsilon, setEpsilon] = useState(0.8); // Exploration rate
-  const [alpha, setAlpha] = useState(0.1);     // Learning rate
-  const [gamma, setGamma] = useState(0.9);     // Discount factor
-  const [useHeuristic, setUseHeuristic] = useState(false); // Greedy toggle
-
-  // Learning State (Refs for performance)
-  // We initialize the ref initially, but it gets overwritten in resetLearning
-  const qTableRef = useRef<QTable>(initQTable(GRID_SIZE, false, {x:0, y:0}));
-  const [episode, setEpisode] = useState(0);
-  const [moves, setMoves] = useState(0);
-  const [totalReward, setTotalReward] = useState(0);
-  
-  // UX State
-  const [showArrows, setShowArrows] = useState(true);
-  const [isDragging, setIsDragging] = useState(false);
-  const [drawMode, setDrawMode] = useState<'WALL' | 'EMPTY'>('WALL');
-
-  // --- Initialization ---
-  useEffect(() => {
-    resetGrid();
-  }, []); // Run once on mount
-
-  // We need a separate effect to update Q-table when the heuristic toggle changes
-  // IF we havent started learning effectively yet (episode 0, moves 0)
-  useEffect(() => {
-      if (episode === 0 && moves === 0) {
-          resetLearning();
-      }
-  }, [useHeuristic]);
-
-  const resetGrid = () => {
-    const newGrid: CellType[][] = Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill('EMPTY'));
-    
-    // Default Walls (Border)
-    for(let i=0; i<GRID_SIZE; i++) {
-        newGrid[0][i] = 'WALL';
-        newGrid[GRID_SIZE-1][i] = 'WALL';
-        newGrid[i][0] = 'WALL';
-        newGrid[i][GRID_SIZE-1] = 'WALL';
-    }
-
-    // Default positions
-    const sPos = { x: 1, y: 1 };
-    const gPos = { x: GRID_SIZE - 2, y: GRID_SIZE - 2 };
-
-    newGrid[sPos.y][sPos.x] = 'START';
-    newGrid[gPos.y][gPos.x] = 'GOAL';
-
-    setGrid(newGrid);
-    setStartPos(sPos);
-    setGoalPos(gPos);
-    setCarPos(sPos);
-    
-    // We call resetLearning explicitly here to ensure it uses the new goalPos
-    // Note: Since state updates are async, we pass values directly
-    resetLearningWithParams(sPos, gPos);
-  };
-
-  const resetLearning = () => {
-      resetLearningWithParams(startPos, goalPos);
-  };
-
-  const resetLearningWithParams = (sPos: {x:number, y:number}, gPos: {x:number, y:number}) => {
-    qTableRef.current = initQTable(GRID_SIZE, useHeuristic, gPos);
-    setEpisode(0);
-    setMoves(0);
-    setTotalReward(0);
-    setCarPos(sPos);
-  };
-
-  const handleCellClick = (x: number, y: number) => {
-    if (isRunning) return;
-    if ((x === startPos.x && y === startPos.y) || (x === goalPos.x && y === goalPos.y)) return;
-
-    const newGrid = [...grid];
-    newGrid[y] = [...newGrid[y]];
-    
-    // If clicking, decide mode based on current cell
-    if (!isDragging) {
-        setDrawMode(newGrid[y][x] === 'WALL' ? 'EMPTY' : 'WALL');
-        newGrid[y][x] = newGrid[y][x] === 'WALL' ? 'EMPTY' : 'WALL';
-    } else {
-        newGrid[y][x] = drawMode;
-    }
-    
-    setGrid(newGrid);
-  };
-
-  // --- The Q-Learning Step ---
-  const step = useCallback(() => {
-    setMoves(m => m + 1);
-    
-    const { x, y } = carPos;
-    const currentQ = qTableRef.current[y][x];
-
-    // 1. Choose Action (Epsilon Greedy)
-    let actionIdx: number;
-    if (Math.random() < epsilon) {
-      // Explore
-      actionIdx = Math.floor(Math.random() * 4);
-    } else {
-      // Exploit
-      actionIdx = getBestAction(currentQ);
-    }
-
-    const action = ACTIONS[actionIdx];
-    let nextX = x + action.dx;
-    let nextY = y + action.dy;
-
-    // Boundary check
-    if (nextX < 0 || nextX >= GRID_SIZE || nextY < 0 || nextY >= GRID_SIZE) {
-        nextX = x;
-        nextY = y;
-    }
-
-    // 2. Observe Reward & Next State
-    let reward = 0;
-    let isDone = false;
-    let hitWall = false;
-
-    const cellType = grid[nextY][nextX];
-
-    if (cellType === 'GOAL') {
-      reward = REWARD.GOAL;
-      isDone = true;
-    } else if (cellType === 'WALL') {
-      reward = REWARD.WALL;
-      hitWall = true;
-      nextX = x; 
-      nextY = y; 
-    } else {
-      reward = REWARD.STEP;
-    }
-
-    // 3. Update Q-Table (Bellman Equation)
-    const oldVal = currentQ[actionIdx];
-    const nextMaxQ = getMaxQ(qTableRef.current[nextY][nextX]);
-    
-    // Standard Q-Learning update
-    const newVal = oldVal + alpha * (reward + gamma * nextMaxQ - oldVal);
-    
-    qTableRef.current[y][x][actionIdx] = newVal;
-
-    setTotalReward(prev => prev + reward);
-
-    // 4. Move Agent
-    setCarPos({ x: nextX, y: nextY });
-
-    // Handle Episode End
-    if (isDone) {
-        setEpisode(e => e + 1);
-        setCarPos(startPos); // Reset to start
-        setMoves(0);
-        setTotalReward(0);
-        // Decay epsilon
-        if (epsilon > 0.01) setEpsilon(e => Math.max(0.01, e * 0.995));
-    } else if (hitWall) {
-         // Reset if stuck in loop or too many moves
-         if (moves > GRID_SIZE * GRID_SIZE * 2) {
-             setEpisode(e => e + 1);
-             setCarPos(startPos);
-             setMoves(0);
-             setTotalReward(0);
-         }
-    }
-
-  }, [carPos, epsilon, alpha, gamma, grid, moves, startPos]);
-
-
-  // --- Game Loop ---
-  useEffect(() => {
-    if (isRunning) {
-      timerRef.current = setTimeout(step, 100 - speed); 
-    }
-    return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
-    };
-  }, [isRunning, step, speed]);
-
-
-  // --- Renderer ---
-  
-  const getCellColor = (x: number, y: number, type: CellType) => {
-    if (type === 'WALL') return 'bg-gray-900';
-    if (type === 'START') return 'bg-green-500/20'; 
-    if (type === 'GOAL') return 'bg-red-500/20';
-    
-    const qs = qTableRef.current[y][x];
-    const maxQ = Math.max(...qs);
-    const minQ = Math.min(...qs);
-
-    // Color logic differs if we are using heuristics (values are negative)
-    // vs standard (values start at 0).
-    
-    // Heuristic mode: most values are negative (distance). 
-    // MaxQ will be closest to 0 (e.g. -2 is better than -20).
-    if (useHeuristic) {
-         if (maxQ > -5) return `rgba(34, 197, 94, 0.4)`; // Very close (Green)
-         if (maxQ > -15) return `rgba(34, 197, 94, 0.2)`; // Close
-         if (maxQ === -Infinity) return 'bg-white';
-         return 'bg-white'; // Distant cells remain white for clarity
-    }
-
-    // Standard Mode Visualization
-    if (maxQ === 0 && minQ === 0) return 'bg-white';
-
-    if (maxQ > 0) {
-        const intensity = Math.min(1, maxQ / 50); 
-        return `rgba(34, 197, 94, ${0.1 + intensity * 0.5})`; 
-    } else {
-        const intensity = Math.min(1, Math.abs(minQ) / 100);
-        return `rgba(239, 68, 68, ${0.1 + intensity * 0.4})`;
-    }
-  };
-
-  const getArrow = (x: number, y: number) => {
-     if (!showArrows) return null;
-     const qs = qTableRef.current[y][x];
-     
-     // In standard mode, skip . In heuristic mode, arrows always exist.
-     if (!useHeuristic && qs.every(v => v === 0)) return null;
-
-     const bestIdx = getBestAction(qs);
-     
-     // Filter weak signals
-     if (!useHeuristic && Math.abs(qs[bestIdx]) < 0.1) return null;
-
-     const rotation = bestIdx * 90; 
-     
-     return (
-        <div 
-            className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-40"
-            style={{ transform: `rotate(${rotation}deg)` }}
-        >
-            <span className="text-xs font-bold text-gray-800">↑</span>
-        </div>
-     );
-  };
-
-  return (
-    <div className="min-h-screen bg-gray-50 flex flex-col items-center p-4 font-sans text-slate-800">
-      
-      {/* Header */}
-      <div className="w-full max-w-5xl mb-6 flex justify-between items-center">
-        <div>
-            <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-2">
-                <Car className="w-8 h-8 text-blue-600" />
-                Q-Learning Car
-            </h1>
-            <p className="text-sm text-slate-500">Reinforcement Learning Pathfinder</p>
-        </div>
-        
-        <div className="flex gap-3">
-             <button 
-                onClick={() => setIsRunning(!isRunning)}
-                className={`flex items-center gap-2 px-6 py-2 rounded-full font-bold shadow-sm transition-all ${
-                    isRunning ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-green-600 text-white hover:bg-green-700'
-                }`}
-            >
-                {isRunning ? <><Pause size={18}/> Pause</> : <><Play size={18}/> Start Learning</>}
-            </button>
-            <button 
-                onClick={resetLearning}
-                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full hover:bg-slate-50 text-slate-700 transition-all"
-            >
-                <RotateCcw size={16}/> Reset Agent
-            </button>
-            <button 
-                onClick={resetGrid}
-                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full hover:bg-red-50 text-red-600 transition-all"
-            >
-                <Trash2 size={16}/> Clear Walls
-            </button>
-        </div>
-      </div>
-
-      <div className="flex flex-col lg:flex-row gap-8 w-full max-w-5xl">
-        
-        {/* Left: The Grid */}
-        <div className="flex-1 flex flex-col items-center">
-            <div 
-                className="bg-white p-2 rounded-xl shadow-lg border border-slate-200 select-none relative"
-                onMouseLeave={() => setIsDragging(false)}
-            >
-                <div 
-                    className="grid gap-[1px] bg-slate-200"
-                    style={{ 
-                        gridTemplateColumns: `repeat(${GRID_SIZE}, minmax(0, 1fr))`,
-                        width: 'min(600px, 90vw)',
-                        height: 'min(600px, 90vw)'
-                    }}
-                >
-                    {grid.map((row, y) => (
-                        row.map((cellType, x) => {
-                            const isCar = carPos.x === x && carPos.y === y;
-                            const isStart = startPos.x === x && startPos.y === y;
-                            const isGoal = goalPos.x === x && goalPos.y === y;
-
-                            return (
-                                <div 
-                                    key={`${x}-${y}`}
-                                    onMouseDown={() => { setIsDragging(true); handleCellClick(x, y); }}
-                                    onMouseEnter={() => { if(isDragging) handleCellClick(x, y); }}
-                                    onMouseUp={() => setIsDragging(false)}
-                                    className={`relative transition-colors duration-150 cursor-pointer overflow-hidden ${getCellColor(x, y, cellType)}`}
-                                    style={{ backgroundColor: getCellColor(x, y, cellType) }} 
-                                >
-                                    {isStart && <div className="absolute inset-0 flex items-center justify-center opacity-30 text-green-700 font-bold">S</div>}
-                                    {isGoal && <div className="absolute inset-0 flex items-center justify-center text-red-600"><Flag size={20} fill="currentColor"/></div>}
-                                    
-                                    {!isCar && cellType !== 'WALL' && !isGoal && getArrow(x, y)}
-
-                                    {isCar && (
-                                        <div className="absolute inset-0 z-10 flex items-center justify-center transition-all duration-100">
-                                            <div className="bg-blue-600 text-white p-1 rounded-full shadow-lg scale-110">
-                                                <Car size={16} />
-                                            </div>
-                                        </div>
-                                    )}
-                                </div>
-                            );
-                        })
-                    ))}
-                </div>
-            </div>
-            
-            <div className="mt-4 flex gap-4 text-xs text-slate-500 font-medium">
-                <div className="flex items-center gap-1"><div className="w-3 h-3 bg-green-500/30 rounded"></div> Good Path</div>
-                <div className="flex items-center gap-1"><div className="w-3 h-3 bg-red-500/30 rounded"></div> Bad Path</div>
-                <div className="flex items-center gap-1"><div className="w-3 h-3 bg-gray-900 rounded"></div> Wall</div>
-            </div>
-        </div>
-
-        {/* Right: Dashboard */}
-        <div className="w-full lg:w-80 space-y-6">
-            
-            {/* Stats Card */}
-            <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
-                <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
-                    <Info size={18} className="text-blue-500"/> Live Stats
-                </h2>
-                <div className="grid grid-cols-2 gap-4">
-                    <div className="bg-slate-50 p-3 rounded-lg">
-                        <div className="text-xs text-slate-500 uppercase font-bold">Episode</div>
-                        <div className="text-2xl font-mono text-slate-900">{episode}</div>
-                    </div>
-                    <div className="bg-slate-50 p-3 rounded-lg">
-                        <div className="text-xs text-slate-500 uppercase font-bold">Moves</div>
-                        <div className="text-2xl font-mono text-slate-900">{moves}</div>
-                    </div>
-                    <div className="col-span-2 bg-slate-50 p-3 rounded-lg">
-                         <div className="text-xs text-slate-500 uppercase font-bold">Total Reward</div>
-                         <div className={`text-xl font-mono ${totalReward > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                            {totalReward.toFixed(1)}
-                         </div>
-                    </div>
-                </div>
-            </div>
-
-            {/* Controls Card */}
-            <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
-                 <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
-                    <Settings size={18} className="text-slate-500"/> Hyperparameters
-                </h2>
-
-                <div className="space-y-5">
-                    
-                    {/* Heuristic Toggle (Greedy) */}
-                     <div className="p-3 bg-indigo-50 rounded-lg border border-indigo-100">
-                        <div className="flex items-center justify-between mb-2">
-                             <label htmlFor="heuristic" className="text-sm font-bold text-indigo-900 flex items-center gap-2">
-                                <Compass size={16} /> Greedy Heuristic
-                             </label>
-                             <input 
-                                type="checkbox" 
-                                id="heuristic"
-                                checked={useHeuristic} 
-                                onChange={(e) => {
-                                    setUseHeuristic(e.target.checked);
-                                    // Auto-adjust epsilon if user turns on heuristic for better UX
-                                    if(e.target.checked) setEpsilon(0.2);
-                                }}
-                                className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500 border-gray-300"
-                            />
-                        </div>
-                        <p className="text-xs text-indigo-700 leading-snug">
-                            {useHeuristic 
-                                ? "ON: Car knows where the flag is (Distance). Lowers difficulty." 
-                                : "OFF: Car knows nothing. Blind exploration."}
-                        </p>
-                    </div>
-
-                    {/* Simulation Speed */}
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-sm">
-                            <span className="text-slate-600">Simulation Speed</span>
-                            <span className="font-mono text-slate-900">{speed}%</span>
-                        </div>
-                        <input 
-                            type="range" min="0" max="99" step="1"
-                            value={speed} onChange={(e) => setSpeed(Number(e.target.value))}
-                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                        />
-                    </div>
-
-                    <hr className="border-slate-100"/>
-
-                    {/* Epsilon */}
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-sm">
-                            <span className="text-slate-600">Exploration (Epsilon)</span>
-                            <span className="font-mono text-slate-900">{epsilon.toFixed(2)}</span>
-                        </div>
-                        <input 
-                            type="range" min="0" max="1" step="0.01"
-                            value={epsilon} onChange={(e) => setEpsilon(Number(e.target.value))}
-                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
-                        />
-                        <p className="text-[10px] text-slate-400 leading-tight">
-                            {useHeuristic && epsilon > 0.3 
-                                ? "Warning: High Exploration will ignore your Heuristic!" 
-                                : "High = Try random moves. Low = Use learned path."}
-                        </p>
-                    </div>
-
-                    {/* Learning Rate */}
-                    <div className="space-y-1">
-                        <div className="flex justify-between text-sm">
-                            <span className="text-slate-600">Learning Rate (Alpha)</span>
-                            <span className="font-mono text-slate-900">{alpha.toFixed(2)}</span>
-                        </div>
-                        <input 
-                            type="range" min="0.01" max="1" step="0.01"
-                            value={alpha} onChange={(e) => setAlpha(Number(e.target.value))}
-                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-                        />
-                    </div>
-                </div>
-            </div>
-
-             <div className="flex items-center gap-2">
-                <input 
-                    type="checkbox" 
-                    id="showArrows"
-                    checked={showArrows} 
-                    onChange={(e) => setShowArrows(e.target.checked)}
-                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
-                />
-                <label htmlFor="showArrows" className="text-sm text-slate-600 select-none cursor-pointer">Show Policy Arrows</label>
-             </div>
-
-        </div>
-      </div>
-    </div>
-  );
-};
-
-export default App;
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Play, Pause, RotateCcw, Trash2, Settings, Car, Flag, Info, Compass, FastForward, StepForward, Navigation2 } from 'lucide-react';
+import {
+  DEFAULT_ENV,
+  createGrid,
+  getMaxSteps,
+  gridHeight,
+  gridWidth,
+  isTeleport,
+  resizeLayout,
+  type CellType,
+  type EnvConfig,
+  type MazeLayout,
+  type Pos,
+} from './engine/gridWorld';
+import { cloneQTable, copyOverlap, createVisitCounts, initQTable, type Hyperparams, type QTable, type VisitCounts } from './engine/agent';
+import { ALGORITHMS, getQValues, withAlgorithm, type Algorithm } from './engine/algorithms';
+import { DEFAULT_EXPLORATION, STRATEGIES, decayExploration, type Exploration } from './engine/exploration';
+import { DEFAULT_PLANNING, createModel, cropModel, type DynaModel, type Planning } from './engine/dyna';
+import { startEpisode, stepAgent, toRecordedStep, type CellUpdate, type EpisodeState, type StepResult } from './engine/trainer';
+import {
+  NOT_CONVERGED,
+  appendHistory,
+  diffEnvConfig,
+  logRunChanges,
+  updateConvergence,
+  type Convergence,
+  type EpisodeRecord,
+  type EpisodeSummary,
+  type RunEvent,
+} from './engine/history';
+import { runExperimentInWorker, trainInWorker, trainKinematicInWorker, trainLinearInWorker } from './engine/trainInWorker';
+import { computeHeatmap, isSigned, type HeatLayer } from './engine/heatmap';
+import { expandSweep, type ExperimentRow, type SweepConfig, type SweepValues } from './engine/experiments';
+import { createRng, nextSeed, type Rng } from './engine/rng';
+import {
+  NO_OBJECTIVES,
+  checkpointIndex,
+  collectedCount,
+  createLayers,
+  extraGoalAt,
+  hasObjectives,
+  isObjectiveAt,
+  layerFor,
+  toggleCheckpoint,
+  toggleExtraGoal,
+  withoutObjectivesAt,
+  type CheckpointLayers,
+  type Objectives,
+} from './engine/objectives';
+import { generateMaze, type Generator } from './engine/mazeGen';
+import { NEW_LINEAR_RUN, evaluateLinear, initLinearModel, linearQTable, type LinearModel, type LinearRun } from './engine/linear';
+import { createSession, decodeMaze, encodeMaze, parseSession, SessionError } from './engine/session';
+import { compareToOracle, solveOracle } from './engine/oracle';
+import {
+  CAR_COLORS,
+  DEFAULT_SQUAD,
+  createCar,
+  greedyPathLength,
+  reconfigureCar,
+  stepCar,
+  type SquadCar,
+  type SquadContext,
+  type SquadSetup,
+} from './engine/squad';
+import { addRecording, recordingsToJson, replayPosition, replayTrail, type EpisodeRecording, type RecordedStep } from './engine/recording';
+import { NO_DP_PROGRESS, dpSweep, greedyPolicy, type DpMethod, type DpProgress, type Policy } from './engine/dynamicProgramming';
+import {
+  NO_DYNAMICS,
+  advanceWorld,
+  boostEpsilon,
+  clearDynamics,
+  createPatrol,
+  isDoor,
+  patrolAt,
+  withoutDynamicsAt,
+  type Dynamics,
+  type DynamicWorld,
+} from './engine/dynamics';
+import {
+  KINEMATIC_ACTIONS,
+  createKinematicVisits,
+  initKinematicTables,
+  resizeKinematicTables,
+  sliceIndex,
+  startCar,
+  stepKinematic,
+  type CarState,
+  type KinematicTables,
+  type Slice,
+} from './engine/kinematics';
+import LearningCurves from './components/LearningCurves';
+import SessionPanel from './components/SessionPanel';
+import GridSizeControls from './components/GridSizeControls';
+import TerrainPalette, { DynamicMark, ObjectiveMark, TerrainMark, type PaletteTool } from './components/TerrainPalette';
+import RewardsPanel from './components/RewardsPanel';
+import MazeGenerator from './components/MazeGenerator';
+import OraclePanel from './components/OraclePanel';
+import DynamicProgrammingPanel from './components/DynamicProgrammingPanel';
+import CellInspector from './components/CellInspector';
+import ReplayPanel from './components/ReplayPanel';
+import MultiAgentPanel from './components/MultiAgentPanel';
+import DynamicsPanel from './components/DynamicsPanel';
+import KinematicsPanel from './components/KinematicsPanel';
+import ExplorationPanel from './components/ExplorationPanel';
+import DynaPanel from './components/DynaPanel';
+import LinearAgentPanel from './components/LinearAgentPanel';
+import ExperimentsPanel from './components/ExperimentsPanel';
+import GridCanvas from './components/GridCanvas';
+import HeatmapLegend, { ActionHeat } from './components/HeatmapLegend';
+import ObjectivesPanel from './components/ObjectivesPanel';
+import { downloadFile } from './utils/download';
+import { heatColor, policyArrow } from './utils/cellStyle';
+
+// --- Constants ---
+const DEFAULT_GRID_SIZE = 15;
+const TRAIN_EPISODES = 500;
+const DEFAULT_SEED = 42;
+const FRAME_MS = 1000 / 30;   // Live runs publish to React at most this often
+const BATCH_BUDGET_MS = 20;   // Stepping time per frame at full speed, the rest is for rendering
+
+// Loop state a batch of live steps advances before React sees it
+type LiveRun = {
+  episodeState: EpisodeState;
+  kinState: EpisodeState<CarState>;
+  episode: number;
+  epsilon: number;
+  world: DynamicWorld;
+  convergence: Convergence;
+  finished: EpisodeRecord[];      // Episodes ended during the batch
+  recordings: EpisodeRecording[]; // ...and their recordings
+  last: StepResult | null;        // The main car's latest step
+};
+
+const App = () => {
+  // --- State ---
+  const [grid, setGrid] = useState<CellType[][]>([]);
+  const [startPos, setStartPos] = useState({ x: 1, y: 1 });
+  const [goalPos, setGoalPos] = useState({ x: DEFAULT_GRID_SIZE - 2, y: DEFAULT_GRID_SIZE - 2 });
+  const width = gridWidth(grid) || DEFAULT_GRID_SIZE;
+  const height = gridHeight(grid) || DEFAULT_GRID_SIZE;
+  
+  // Loop Control
+  const [isRunning, setIsRunning] = useState(false);
+  const [speed, setSpeed] = useState(50); // ms delay
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const batchStartRef = useRef(0); // When the last batch of live steps began
+  const stepsOwedRef = useRef(0);   // Fraction of a step carried to the next batch
+  const [isTraining, setIsTraining] = useState(false);
+
+  // Hyperparameters
+  const [epsilon, setEpsilon] = useState(0.8); // Exploration rate
+  const [alpha, setAlpha] = useState(0.1);     // Learning rate
+  const [gamma, setGamma] = useState(0.9);     // Discount factor
+  const [useHeuristic, setUseHeuristic] = useState(false); // Greedy toggle
+  const [algorithm, setAlgorithm] = useState<Algorithm>('Q_LEARNING');
+  const [exploration, setExploration] = useState<Exploration>(DEFAULT_EXPLORATION); // Strategy and decay schedule
+  const [seed, setSeed] = useState(DEFAULT_SEED); // PRNG seed for reproducible runs
+  const [env, setEnv] = useState<EnvConfig>(DEFAULT_ENV);
+
+  // Learning State (Refs for performance)
+  // We initialize the ref initially, but it gets overwritten in resetLearning
+  const qTableRef = useRef<QTable>(initQTable(DEFAULT_GRID_SIZE, DEFAULT_GRID_SIZE, false, {x:0, y:0}));
+  const qTableBRef = useRef<QTable | null>(null); // Double Q-learning's second estimate
+  const rngRef = useRef<Rng>(createRng(DEFAULT_SEED));
+  const visitsRef = useRef<VisitCounts>(createVisitCounts(DEFAULT_GRID_SIZE, DEFAULT_GRID_SIZE));
+  const lastUpdatesRef = useRef(new Map<string, CellUpdate>()); // Latest live update per "x,y"
+  const importedHeuristicRef = useRef(false); // The heuristic flag came with imported tables: keep them
+
+  // Dyna-Q: the main car's learned model and how much it plans per step
+  const [planning, setPlanning] = useState<Planning>(DEFAULT_PLANNING);
+  const modelRef = useRef<DynaModel>(createModel());
+  const [planned, setPlanned] = useState<Set<string>>(new Set()); // Cells the last step planned on
+
+  // Linear function approximation: trained apart from the tabular agent, on randomized layouts
+  const [linearModel, setLinearModel] = useState<LinearModel>(initLinearModel);
+  const [linearRun, setLinearRun] = useState<LinearRun>(NEW_LINEAR_RUN);
+  const [linearGenerator, setLinearGenerator] = useState<Generator | null>(null);
+  const [showLinear, setShowLinear] = useState(false); // The grid draws the linear policy
+
+  // Hyperparameter sweeps, one configuration per worker
+  const [sweepRows, setSweepRows] = useState<ExperimentRow[]>([]);
+  const [sweepProgress, setSweepProgress] = useState<{ done: number; total: number } | null>(null);
+  const stopSweepRef = useRef(false);
+  const [episode, setEpisode] = useState(0);
+  const [episodeState, setEpisodeState] = useState<EpisodeState>(startEpisode({ x: 1, y: 1 }));
+  const [history, setHistory] = useState<EpisodeRecord[]>([]); // Latest episodes only, see MAX_HISTORY
+  const [goalCount, setGoalCount] = useState(0); // Goals this run, beyond what the history still holds
+  const [runLog, setRunLog] = useState<RunEvent[]>([]); // Reward/termination/gamma changes this run
+
+  // Car kinematics: (x, y, heading, speed) states with a table per heading/speed slice
+  const [kinematic, setKinematic] = useState(false);
+  const kinTablesRef = useRef<KinematicTables>([]); // Filled by resetLearning
+  const kinVisitsRef = useRef<VisitCounts[]>([]);
+  const [kinState, setKinState] = useState<EpisodeState<CarState>>(startEpisode(startCar({ x: 1, y: 1 })));
+  const [viewSlice, setViewSlice] = useState<Slice>({ heading: 1, speed: 0 }); // Slice the grid shows
+  const [followCar, setFollowCar] = useState(true); // ...or the car's own
+  const { pos: carPos, moves, totalReward } = kinematic ? kinState : episodeState;
+
+  // Episode recordings
+  const trajectoryRef = useRef<RecordedStep[]>([]); // Steps of the episode in progress
+  const [recordings, setRecordings] = useState<EpisodeRecording[]>([]);
+  const [replayEpisode, setReplayEpisode] = useState<number | null>(null);
+  const [replayFrame, setReplayFrame] = useState(0);
+
+  // Multi-agent mode: the main agent is car 1, the squad holds cars 2..N
+  const [squadSetup, setSquadSetup] = useState<SquadSetup>(DEFAULT_SQUAD);
+  const squadRef = useRef<SquadCar[]>([]);
+  const [, setSquadVersion] = useState(0); // Re-render after editing a squad car
+  const [mainConvergence, setMainConvergence] = useState(NOT_CONVERGED);
+  const [viewedCar, setViewedCar] = useState(1); // Whose Q-Table colors the grid
+
+  // Dynamic Programming (model-based sweeps into the same Q-Table)
+  const [dpMethod, setDpMethod] = useState<DpMethod>('VALUE_ITERATION');
+  const [dpThreshold, setDpThreshold] = useState(0.001); // Bellman residual to stop at
+  const [dpProgress, setDpProgress] = useState<DpProgress>(NO_DP_PROGRESS);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const policyRef = useRef<Policy | null>(null); // Policy iteration's current policy
+
+  // Non-stationary environment: patrols, doors and goal relocation
+  const [dynamics, setDynamics] = useState<Dynamics>(NO_DYNAMICS);
+  const stepClockRef = useRef(0); // Live steps taken, paces the patrols
+
+  // Extra goals and checkpoints; the main car keeps Q-values per checkpoint count
+  const [objectives, setObjectives] = useState<Objectives>(NO_OBJECTIVES);
+  const layersRef = useRef<CheckpointLayers | null>(null);
+  const [keepTables, setKeepTables] = useState(false); // Moving S or the flag keeps what was learned
+  const [draggedMarker, setDraggedMarker] = useState<'START' | 'GOAL' | null>(null);
+  
+  // UX State
+  const [showArrows, setShowArrows] = useState(true);
+  const [useCanvas, setUseCanvas] = useState(false); // Canvas renderer for large grids and fast runs
+  const [heatLayer, setHeatLayer] = useState<HeatLayer>('VALUE'); // What the cell colors show
+  const [showOracle, setShowOracle] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [tool, setTool] = useState<PaletteTool>('WALL'); // Selected terrain (or the inspector) in the palette
+  const [drawMode, setDrawMode] = useState<CellType>('WALL');
+  const [inspected, setInspected] = useState<Pos | null>(null); // Cell shown in the inspector
+  const [highlight, setHighlight] = useState<Pos | null>(null); // Cell updated by "Step once"
+  const [sessionStatus, setSessionStatus] = useState<{ kind: 'ok' | 'error'; message: string } | null>(null);
+  const [workerError, setWorkerError] = useState<string | null>(null); // Last failed headless batch
+
+  const resetGrid = () => {
+    applyLayout(createGrid(width, height));
+  };
+
+  const applyLayout = (layout: MazeLayout) => {
+    setGrid(layout.grid);
+    setStartPos(layout.start);
+    setGoalPos(layout.goal);
+    setDynamics(d => ({ ...d, patrols: [], doors: [] }));
+    const cleared = { ...objectives, goals: [], checkpoints: [] };
+    setObjectives(cleared);
+    setInspected(null);
+    
+    // We call resetLearning explicitly here to ensure it uses the new goalPos
+    // Note: Since state updates are async, we pass values directly
+    resetLearningWithParams(layout, squadSetup, cleared);
+  };
+
+  const resetLearning = () => {
+      resetLearningWithParams({ grid, start: startPos, goal: goalPos });
+  };
+
+  const resetLearningWithParams = ({ grid: g, start: sPos, goal: gPos }: MazeLayout, setup = squadSetup, objs = objectives) => {
+    const w = gridWidth(g);
+    const h = gridHeight(g);
+    const optimistic = exploration.optimisticInit;
+    const freshTables = () => ({
+      qTable: initQTable(w, h, useHeuristic, gPos, optimistic),
+      qTableB: algorithm === 'DOUBLE_Q' ? initQTable(w, h, useHeuristic, gPos, optimistic) : null,
+    });
+    const tables = freshTables();
+    qTableRef.current = tables.qTable;
+    qTableBRef.current = tables.qTableB;
+    layersRef.current = createLayers(objs, freshTables, w, h);
+    rngRef.current = createRng(seed);
+    visitsRef.current = createVisitCounts(w, h);
+    kinTablesRef.current = initKinematicTables(w, h, useHeuristic, gPos, algorithm === 'DOUBLE_Q', optimistic);
+    kinVisitsRef.current = createKinematicVisits(w, h);
+    modelRef.current = createModel();
+    setPlanned(new Set());
+    lastUpdatesRef.current = new Map();
+    trajectoryRef.current = [];
+    setRecordings([]);
+    setReplayEpisode(null);
+    setHighlight(null);
+    setEpisode(0);
+    setHistory([]);
+    setGoalCount(0);
+    setRunLog([]);
+    setEpisodeState(startEpisode(sPos));
+    setKinState(startEpisode(startCar(sPos)));
+    setIsSweeping(false);
+    setDpProgress(NO_DP_PROGRESS);
+    policyRef.current = null;
+    buildSquad({ grid: g, start: sPos, goal: gPos }, setup);
+  };
+
+  // --- Multi-agent squad ---
+  // Cars keep their hyperparameters across resets; everything learned starts over
+  const buildSquad = (layout: MazeLayout, setup: SquadSetup) => {
+    const ctx: SquadContext = {
+      ...layout,
+      env,
+      shared: { qTable: qTableRef.current, qTableB: qTableBRef.current },
+      algorithm,
+      useHeuristic,
+      objectives,
+      layers: layersRef.current,
+    };
+    const previous = squadRef.current;
+    squadRef.current = setup.enabled
+      ? Array.from({ length: setup.count - 1 }, (_, i) => {
+          const id = i + 2;
+          const params = previous.find(c => c.id === id)?.params ?? { alpha, gamma, epsilon, algorithm, exploration };
+          return createCar(id, params, ctx, setup.sharedTable, seed);
+        })
+      : [];
+    setMainConvergence(NOT_CONVERGED);
+    setViewedCar(1);
+  };
+
+  // Changing the squad restarts the run so every car races from scratch
+  const changeSquad = (next: SquadSetup) => {
+    setIsRunning(false);
+    setSquadSetup(next);
+    resetLearningWithParams({ grid, start: startPos, goal: goalPos }, next);
+  };
+
+  const changeCarParams = (id: number, params: Hyperparams) => {
+    const ctx: SquadContext = {
+      grid,
+      start: startPos,
+      goal: goalPos,
+      env,
+      shared: { qTable: qTableRef.current, qTableB: qTableBRef.current },
+      algorithm,
+      useHeuristic,
+      objectives,
+      layers: layersRef.current,
+    };
+    squadRef.current = squadRef.current.map(car => car.id === id ? reconfigureCar(car, params, ctx) : car);
+    setSquadVersion(v => v + 1);
+  };
+
+  // Seeded procedural layout at the current size, keeping start/goal where possible
+  const generateLayout = (generator: Generator, mazeSeed: number, density: number) => {
+    const { layout, repairedWalls } = generateMaze({
+      generator,
+      width,
+      height,
+      seed: mazeSeed,
+      density,
+      start: startPos,
+      goal: goalPos,
+    });
+    setIsRunning(false);
+    applyLayout(layout);
+    return repairedWalls;
+  };
+
+  // Keep the overlapping part of the maze and of what was learned there
+  const resizeGrid = (newWidth: number, newHeight: number) => {
+    // Patrols and doors are dropped below, so the cells they hold open up first
+    const layout = resizeLayout({ grid: clearDynamics(grid, dynamics).grid, start: startPos, goal: goalPos }, newWidth, newHeight);
+    const resizeTable = (table: QTable) =>
+      copyOverlap(table, initQTable(newWidth, newHeight, useHeuristic, layout.goal, exploration.optimisticInit));
+    const resizeVisits = (visits: VisitCounts) => copyOverlap(visits, createVisitCounts(newWidth, newHeight));
+
+    // Objectives off the new floor or under S/the flag are dropped
+    const objs = withoutObjectivesAt(objectives, p => layout.grid[p.y]?.[p.x] === 'EMPTY');
+
+    setIsRunning(false);
+    setGrid(layout.grid);
+    setStartPos(layout.start);
+    setGoalPos(layout.goal);
+    setDynamics(d => ({ ...d, patrols: [], doors: [] }));
+    setObjectives(objs);
+    if (objs.checkpoints.length !== objectives.checkpoints.length) {
+      // Checkpoints set the state space, so losing one starts over
+      setInspected(null);
+      resetLearningWithParams(layout, squadSetup, objs);
+      return;
+    }
+    qTableRef.current = resizeTable(qTableRef.current);
+    qTableBRef.current = qTableBRef.current && resizeTable(qTableBRef.current);
+    visitsRef.current = resizeVisits(visitsRef.current);
+    layersRef.current = layersRef.current && {
+      tables: layersRef.current.tables.map(t => ({ qTable: resizeTable(t.qTable), qTableB: t.qTableB && resizeTable(t.qTableB) })),
+      visits: layersRef.current.visits.map(resizeVisits),
+    };
+    kinTablesRef.current = resizeKinematicTables(
+      kinTablesRef.current, newWidth, newHeight, useHeuristic, layout.goal, exploration.optimisticInit,
+    );
+    kinVisitsRef.current = kinVisitsRef.current.map(visits => copyOverlap(visits, createVisitCounts(newWidth, newHeight, KINEMATIC_ACTIONS.length)));
+    // The model of a checkpoint run holds stacked rows, which a crop would mix up
+    modelRef.current = layersRef.current ? createModel() : cropModel(modelRef.current, newWidth, newHeight);
+    setPlanned(new Set());
+    buildSquad(layout, squadSetup);
+    setInspected(null);
+    setHighlight(null);
+    setEpisodeState(startEpisode(layout.start));
+    setKinState(startEpisode(startCar(layout.start)));
+    setIsSweeping(false);
+    policyRef.current = null;
+  };
+
+  const handleCellClick = (x: number, y: number) => {
+    // Painting is locked while the agent runs, so clicks inspect instead
+    if (tool === 'INSPECT' || isRunning || isTraining) {
+      if (grid[y][x] !== 'WALL') setInspected({ x, y });
+      return;
+    }
+    if (draggedMarker) {
+      moveMarker(draggedMarker, { x, y });
+      return;
+    }
+    if ((x === startPos.x && y === startPos.y) || (x === goalPos.x && y === goalPos.y)) return;
+    if (tool === 'DOOR' || tool === 'PATROL_HORIZONTAL' || tool === 'PATROL_VERTICAL') {
+      if (!isDragging && !isObjectiveAt(objectives, { x, y })) toggleDynamicAt({ x, y }, tool);
+      return;
+    }
+    if (tool === 'EXTRA_GOAL' || tool === 'CHECKPOINT') {
+      if (isDragging || grid[y][x] !== 'EMPTY' || isDoor(dynamics, { x, y })) return;
+      changeObjectives(tool === 'EXTRA_GOAL'
+        ? toggleExtraGoal(objectives, { x, y }, env.rewards.GOAL)
+        : toggleCheckpoint(objectives, { x, y }));
+      return;
+    }
+
+    const newGrid = [...grid];
+    newGrid[y] = [...newGrid[y]];
+    
+    // If clicking, decide mode based on current cell:
+    // clicking a cell that already has the selected terrain erases it
+    let mode = drawMode;
+    if (!isDragging) {
+        mode = newGrid[y][x] === tool ? 'EMPTY' : tool;
+        setDrawMode(mode);
+    }
+
+    // A teleporter pair has exactly two pads
+    if (isTeleport(mode) && newGrid[y][x] !== mode && grid.flat().filter(c => c === mode).length >= 2) return;
+
+    newGrid[y][x] = mode;
+    setGrid(newGrid);
+    setDynamics(d => withoutDynamicsAt(d, { x, y })); // Painted over
+    if (mode !== 'EMPTY' && isObjectiveAt(objectives, { x, y })) {
+      changeObjectives(withoutObjectivesAt(objectives, p => p.x !== x || p.y !== y));
+    }
+  };
+
+  // --- Extra goals & checkpoints ---
+  // Checkpoints shape the state space, so adding, removing or reordering one starts over
+  const changeObjectives = (next: Objectives) => {
+    const same = next.checkpoints.length === objectives.checkpoints.length
+      && next.checkpoints.every((c, i) => checkpointIndex(objectives, c) === i);
+    if (!same) {
+      setIsRunning(false);
+      resetLearningWithParams({ grid, start: startPos, goal: goalPos }, squadSetup, next);
+    }
+    setObjectives(next);
+  };
+
+  // Pressing on S or the flag picks it up instead of painting
+  const pressCell = (x: number, y: number) => {
+    setIsDragging(true);
+    const editing = tool !== 'INSPECT' && !isRunning && !isTraining;
+    if (editing && x === startPos.x && y === startPos.y) setDraggedMarker('START');
+    else if (editing && x === goalPos.x && y === goalPos.y) setDraggedMarker('GOAL');
+    else handleCellClick(x, y);
+  };
+
+  const releaseCell = () => {
+    setIsDragging(false);
+    setDraggedMarker(null);
+  };
+
+  // Dropped onto plain floor only. Learning starts over unless the Q-table is
+  // kept, to see how well it transfers to the new start or goal.
+  const moveMarker = (marker: 'START' | 'GOAL', to: Pos) => {
+    const from = marker === 'START' ? startPos : goalPos;
+    const other = marker === 'START' ? goalPos : startPos;
+    if (grid[to.y][to.x] !== 'EMPTY' || (to.x === other.x && to.y === other.y) || isDoor(dynamics, to)) return;
+    if (isObjectiveAt(objectives, to)) return;
+
+    const newGrid = [...grid];
+    newGrid[from.y] = [...newGrid[from.y]];
+    newGrid[from.y][from.x] = 'EMPTY';
+    newGrid[to.y] = [...newGrid[to.y]];
+    newGrid[to.y][to.x] = marker;
+    const layout = { grid: newGrid, start: marker === 'START' ? to : startPos, goal: marker === 'GOAL' ? to : goalPos };
+    setGrid(newGrid);
+    setStartPos(layout.start);
+    setGoalPos(layout.goal);
+    if (!keepTables) {
+      resetLearningWithParams(layout);
+      return;
+    }
+    setEpisodeState(startEpisode(layout.start));
+    setKinState(startEpisode(startCar(layout.start)));
+    setDpProgress(p => ({ ...p, converged: false }));
+    policyRef.current = null;
+  };
+
+  // --- Doors & patrols ---
+  // A click places one (a door starts as the cell is: WALL closed, EMPTY open)
+  // or removes the one already there, leaving an open cell behind
+  const toggleDynamicAt = (pos: Pos, kind: 'DOOR' | 'PATROL_HORIZONTAL' | 'PATROL_VERTICAL') => {
+    const open = () => {
+      const newGrid = [...grid];
+      newGrid[pos.y] = [...newGrid[pos.y]];
+      newGrid[pos.y][pos.x] = 'EMPTY';
+      setGrid(newGrid);
+    };
+    if (isDoor(dynamics, pos) || patrolAt(dynamics, pos)) {
+      setDynamics(withoutDynamicsAt(dynamics, pos));
+      open();
+      return;
+    }
+
+    if (kind === 'DOOR') {
+      if (grid[pos.y][pos.x] !== 'EMPTY' && grid[pos.y][pos.x] !== 'WALL') return;
+      setDynamics({ ...dynamics, doors: [...dynamics.doors, pos] });
+      return;
+    }
+    const patrol = createPatrol(grid, pos, kind === 'PATROL_HORIZONTAL' ? 'HORIZONTAL' : 'VERTICAL');
+    if (!patrol) return;
+    const newGrid = [...grid];
+    newGrid[pos.y] = [...newGrid[pos.y]];
+    newGrid[pos.y][pos.x] = 'WALL';
+    setGrid(newGrid);
+    setDynamics({ ...dynamics, patrols: [...dynamics.patrols, patrol] });
+  };
+
+  const clearAllDynamics = () => {
+    const cleared = clearDynamics(grid, dynamics);
+    setGrid(cleared.grid);
+    setDynamics(cleared.dynamics);
+  };
+
+  // --- Initialization ---
+  // A "#maze=..." share link takes precedence over the default layout
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.hash.slice(1)).get('maze');
+    if (code) {
+      try {
+        applyLayout(decodeMaze(code));
+        setSessionStatus({ kind: 'ok', message: 'Loaded maze from share link.' });
+        return;
+      } catch (err) {
+        setSessionStatus({ kind: 'error', message: `Share link ignored: ${err instanceof Error ? err.message : err}` });
+      }
+    }
+    resetGrid();
+  }, []); // Run once on mount
+
+  // We need a separate effect to update Q-table when the heuristic toggle changes
+  // IF we havent started learning effectively yet (episode 0, moves 0)
+  useEffect(() => {
+      if (importedHeuristicRef.current) {
+          importedHeuristicRef.current = false;
+          return;
+      }
+      if (episode === 0 && moves === 0) {
+          resetLearning();
+      }
+  }, [useHeuristic]);
+
+  // --- Scripted environment changes after a live step, kept clear of every car ---
+  const advanceDynamics = (live: LiveRun, occupied: Pos[], endedEpisode: number | null) => {
+    stepClockRef.current++;
+    const { dynamics: before } = live.world;
+    const { world, changed } = advanceWorld(live.world, startPos, stepClockRef.current, endedEpisode, rngRef.current, occupied);
+    if (changed) {
+      live.epsilon = boostEpsilon(live.epsilon, before);
+      squadRef.current.forEach(car => { car.params = { ...car.params, epsilon: boostEpsilon(car.params.epsilon, before) }; });
+    }
+    live.world = world;
+  };
+
+  // Log the finished episode, then decay epsilon for the next one
+  const endEpisode = (live: LiveRun, summary: EpisodeSummary) => {
+    live.episode++;
+    live.finished.push({ ...summary, episode: live.episode, epsilon: live.epsilon });
+    live.epsilon = decayExploration(live.epsilon, exploration, live.episode);
+  };
+
+  // --- The Q-Learning Step ---
+  const step = (live: LiveRun) => {
+    const { grid: g, goal } = live.world;
+    const squadContext: SquadContext = {
+      grid: g,
+      start: startPos,
+      goal,
+      env,
+      shared: { qTable: qTableRef.current, qTableB: qTableBRef.current },
+      algorithm,
+      useHeuristic,
+      objectives,
+      layers: layersRef.current,
+    };
+    squadRef.current.forEach(car => stepCar(car, squadContext));
+
+    const result = stepAgent(
+      {
+        grid: g,
+        start: startPos,
+        env,
+        qTable: qTableRef.current,
+        qTableB: qTableBRef.current,
+        params: { alpha, gamma, epsilon: live.epsilon, algorithm, exploration },
+        rng: rngRef.current,
+        visits: visitsRef.current,
+        dyna: { model: modelRef.current, planning },
+        objectives,
+        layers: layersRef.current,
+      },
+      live.episodeState,
+    );
+
+    live.episodeState = result.state;
+    live.last = result;
+    const { pos } = result.update;
+    lastUpdatesRef.current.set(`${pos.x},${pos.y}`, result.update);
+    trajectoryRef.current.push(toRecordedStep(result));
+
+    // Handle Episode End
+    const summary = result.summary;
+    if (summary) {
+      const steps = trajectoryRef.current;
+      trajectoryRef.current = [];
+      endEpisode(live, summary);
+      live.recordings.push({ episode: live.episode, outcome: summary.outcome, return: summary.return, steps });
+      live.convergence = updateConvergence(live.convergence, live.episode, greedyPathLength(squadContext.shared, squadContext));
+    }
+    advanceDynamics(live, [result.state.pos, ...squadRef.current.map(car => car.state.pos)], summary ? live.episode : null);
+  };
+
+  // --- The kinematic step: same learning loop, no inspector, replay or squad ---
+  const stepKinematicCar = (live: LiveRun) => {
+    const result = stepKinematic(
+      {
+        tables: kinTablesRef.current,
+        visits: kinVisitsRef.current,
+        grid: live.world.grid,
+        start: startPos,
+        env,
+        params: { alpha, gamma, epsilon: live.epsilon, algorithm, exploration },
+        rng: rngRef.current,
+      },
+      live.kinState,
+    );
+    live.kinState = result.state;
+
+    const summary = result.summary;
+    if (summary) endEpisode(live, summary);
+    advanceDynamics(live, [result.state.pos], summary ? live.episode : null);
+  };
+
+  // --- Batches: many steps, one render ---
+  // A batch starts from the rendered state, so edits made between frames are
+  // kept, and publishes its end state once. Runs at least one step, then as
+  // many of the rest as fit in the time budget.
+  const runBatch = (steps: number, budgetMs: number) => {
+    const live: LiveRun = {
+      episodeState,
+      kinState,
+      episode,
+      epsilon,
+      world: { grid, goal: goalPos, dynamics },
+      convergence: mainConvergence,
+      finished: [],
+      recordings: [],
+      last: null,
+    };
+    const until = performance.now() + budgetMs;
+    for (let i = 0; i < steps && (i === 0 || performance.now() < until); i++) {
+      if (kinematic) stepKinematicCar(live);
+      else step(live);
+    }
+
+    setEpisodeState(live.episodeState);
+    setKinState(live.kinState);
+    setEpisode(live.episode);
+    setEpsilon(live.epsilon);
+    if (live.world.grid !== grid) {
+      setGrid(live.world.grid);
+      setGoalPos(live.world.goal);
+      setDynamics(live.world.dynamics);
+    }
+    if (live.finished.length > 0) {
+      setHistory(h => appendHistory(h, live.finished));
+      setGoalCount(n => n + live.finished.filter(r => r.outcome === 'GOAL').length);
+      setRecordings(r => live.recordings.reduce(addRecording, r));
+      setMainConvergence(live.convergence);
+    }
+    if (live.last) setPlanned(new Set(live.last.planned.map(p => `${p.x},${p.y}`)));
+    return live.last;
+  };
+
+  // Kinematic mode is a different state space, so switching starts the run over
+  const changeKinematic = (next: boolean) => {
+    setIsRunning(false);
+    setIsSweeping(false);
+    setKinematic(next);
+    resetLearning();
+  };
+
+  // --- Replay: scrubbing a recording takes over the car on the grid ---
+  const replaying = recordings.find(r => r.episode === replayEpisode) ?? null;
+
+  const selectReplay = (next: number | null) => {
+    setIsRunning(false);
+    setIsSweeping(false);
+    setReplayEpisode(next);
+    setReplayFrame(0);
+  };
+
+  const exportRecordings = () => {
+    downloadFile(`q-learning-replays-ep${episode}.json`, recordingsToJson(grid, recordings), 'application/json');
+  };
+
+  // --- Single-step debugging: one update, then show it in the inspector ---
+  const stepOnce = () => {
+    setReplayEpisode(null);
+    const last = runBatch(1, 0);
+    if (!last) return;
+    const { pos } = last.update;
+    setHighlight(pos);
+    setInspected(pos);
+  };
+
+  // --- One Dynamic Programming sweep ---
+  // Double Q keeps both estimates equal so the rendered average is the DP value
+  const sweep = useCallback(() => {
+    policyRef.current ??= greedyPolicy(qTableRef.current);
+    const result = dpSweep(dpMethod, grid, env, gamma, qTableRef.current, policyRef.current, dpThreshold);
+    if (qTableBRef.current) qTableBRef.current = cloneQTable(qTableRef.current);
+    setDpProgress(p => ({ ...result, sweeps: p.sweeps + 1 }));
+    if (result.converged) setIsSweeping(false);
+  }, [dpMethod, dpThreshold, grid, env, gamma]);
+
+  const toggleSweeping = () => {
+    setIsRunning(false);
+    setIsSweeping(s => !s);
+  };
+
+  // Policy iteration restarts from the policy that is greedy in the current values
+  const changeDpMethod = (next: DpMethod) => {
+    policyRef.current = null;
+    setDpProgress(p => ({ ...p, policyChanges: null, converged: false }));
+    setDpMethod(next);
+  };
+
+  // --- Environment & discount changes are logged against the episode counter ---
+  const updateEnv = (next: EnvConfig) => {
+    setRunLog(log => logRunChanges(log, episode, diffEnvConfig(env, next)));
+    setEnv(next);
+  };
+
+  const changeGamma = (next: number) => {
+    setRunLog(log => logRunChanges(log, episode, [{ setting: 'gamma', from: gamma, to: next }]));
+    setGamma(next);
+  };
+
+  // --- Algorithm switch ---
+  // Double Q starts both estimates from the current knowledge; leaving it
+  // keeps their average. A pending SARSA action never carries over.
+  const changeAlgorithm = (next: Algorithm) => {
+    const tables = withAlgorithm({ qTable: qTableRef.current, qTableB: qTableBRef.current }, next);
+    qTableRef.current = tables.qTable;
+    qTableBRef.current = tables.qTableB;
+    kinTablesRef.current = kinTablesRef.current.map(slice => withAlgorithm(slice, next));
+    if (layersRef.current) layersRef.current = { ...layersRef.current, tables: layersRef.current.tables.map(t => withAlgorithm(t, next)) };
+    setEpisodeState(s => ({ ...s, nextAction: null }));
+    setKinState(s => ({ ...s, nextAction: null }));
+    setAlgorithm(next);
+  };
+
+  // --- Exploration ---
+  // The squad explores the same way as the main car; optimistic values wait for a reset
+  const changeExploration = (next: Exploration) => {
+    squadRef.current.forEach(car => { car.params = { ...car.params, exploration: next }; });
+    setExploration(next);
+  };
+  const knob = STRATEGIES.find(s => s.id === exploration.strategy)!.knob;
+
+  // --- Headless Training (Web Worker) ---
+  const trainHeadless = async () => {
+    setIsRunning(false);
+    setIsSweeping(false);
+    setIsTraining(true);
+    setWorkerError(null);
+    const batch = {
+      grid,
+      start: startPos,
+      goal: goalPos,
+      dynamics,
+      env,
+      params: { alpha, gamma, epsilon, algorithm, exploration },
+      episodes: TRAIN_EPISODES,
+      firstEpisode: episode + 1,
+      seed: nextSeed(rngRef.current),
+    };
+    const finishBatch = (result: { world: DynamicWorld; episodes: number; history: EpisodeRecord[]; epsilon: number }) => {
+      setGrid(result.world.grid);
+      setGoalPos(result.world.goal);
+      setDynamics(result.world.dynamics);
+      setEpisode(e => e + result.episodes);
+      setHistory(h => appendHistory(h, result.history));
+      setGoalCount(n => n + result.history.filter(r => r.outcome === 'GOAL').length);
+      setEpsilon(result.epsilon);
+    };
+    try {
+      if (kinematic) {
+        const result = await trainKinematicInWorker({ ...batch, tables: kinTablesRef.current, visits: kinVisitsRef.current });
+        kinTablesRef.current = result.tables;
+        kinVisitsRef.current = result.visits;
+        setKinState(startEpisode(startCar(startPos)));
+        finishBatch(result);
+        return;
+      }
+      const result = await trainInWorker({
+        ...batch,
+        qTable: qTableRef.current,
+        qTableB: qTableBRef.current,
+        visits: visitsRef.current,
+        dyna: { model: modelRef.current, planning },
+        layers: layersRef.current,
+        objectives,
+      });
+      qTableRef.current = result.qTable;
+      qTableBRef.current = result.qTableB;
+      visitsRef.current = result.visits;
+      layersRef.current = result.layers;
+      if (result.dyna) modelRef.current = result.dyna.model;
+      setPlanned(new Set());
+      lastUpdatesRef.current = new Map(); // Superseded by the headless updates
+      trajectoryRef.current = [];
+      setRecordings(r => result.recordings.reduce(addRecording, r));
+      setHighlight(null);
+      setEpisodeState(startEpisode(startPos));
+      finishBatch(result);
+    } catch (err) {
+      setWorkerError(`Headless training failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  // --- Linear agent: a batch of randomized layouts in the worker ---
+  const trainLinear = async () => {
+    setIsRunning(false);
+    setIsSweeping(false);
+    setIsTraining(true);
+    setWorkerError(null);
+    try {
+      const result = await trainLinearInWorker({
+        model: linearModel,
+        grid,
+        generator: linearGenerator,
+        env,
+        params: { alpha, gamma, epsilon: linearRun.epsilon, algorithm: 'Q_LEARNING', exploration },
+        episodes: TRAIN_EPISODES,
+        seed: (seed + linearRun.episodes) >>> 0,
+      });
+      setLinearModel(result.model);
+      setLinearRun(r => ({ episodes: r.episodes + result.episodes, epsilon: result.epsilon, goalRate: result.goals / Math.max(1, result.episodes) }));
+    } catch (err) {
+      setWorkerError(`Linear agent training failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const resetLinear = () => {
+    setLinearModel(initLinearModel());
+    setLinearRun(NEW_LINEAR_RUN);
+  };
+
+  // --- Experiments: sweep alpha/gamma/epsilon on a snapshot of the maze ---
+  const runExperiments = async (values: SweepValues, seeds: number, episodes: number) => {
+    setIsRunning(false);
+    setIsSweeping(false);
+    setIsTraining(true);
+    setWorkerError(null);
+    const configs = expandSweep(values);
+    const setup = {
+      layout: { grid, start: startPos, goal: goalPos },
+      env,
+      algorithm,
+      exploration,
+      useHeuristic,
+      episodes,
+      seeds,
+      baseSeed: seed,
+    };
+    stopSweepRef.current = false;
+    setSweepRows([]);
+    setSweepProgress({ done: 0, total: configs.length });
+    try {
+      for (const [i, config] of configs.entries()) {
+        if (stopSweepRef.current) break;
+        const row = await runExperimentInWorker({ ...setup, config });
+        setSweepRows(rows => [...rows, row]);
+        setSweepProgress({ done: i + 1, total: configs.length });
+      }
+    } catch (err) {
+      setWorkerError(`Experiment run failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setSweepProgress(null);
+      setIsTraining(false);
+    }
+  };
+
+  const applySweepConfig = (config: SweepConfig) => {
+    setAlpha(config.alpha);
+    changeGamma(config.gamma);
+    setEpsilon(config.epsilon);
+  };
+
+  // --- Game Loop ---
+  // Batches start on a frame clock and run the steps owed since the last one
+  // (elapsed / delay, the fraction carried over), so every speed keeps its rate.
+  // At the top speed a batch runs as many steps as fit in BATCH_BUDGET_MS.
+  // Re-armed after every render, so a batch always starts from the latest state.
+  useEffect(() => {
+    if (!isRunning) return;
+    const delay = 100 - speed; // ms per step, 0 = unbounded
+    const untilStep = delay > 0 ? (1 - stepsOwedRef.current) * delay : 0;
+    const wait = Math.max(0, batchStartRef.current + FRAME_MS - performance.now(), untilStep);
+    timerRef.current = setTimeout(() => {
+      const now = performance.now();
+      // A long pause (or a slow render) does not leave a backlog to catch up on
+      const elapsed = Math.min(now - batchStartRef.current, 2 * Math.max(delay, FRAME_MS));
+      batchStartRef.current = now;
+      let steps = Infinity;
+      if (delay > 0) {
+        const owed = stepsOwedRef.current + elapsed / delay;
+        steps = Math.max(1, Math.floor(owed));
+        stepsOwedRef.current = Math.max(0, owed - steps);
+      }
+      runBatch(steps, BATCH_BUDGET_MS);
+    }, wait);
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  });
+
+  // Same pacing for DP sweeps; the sweep counter re-arms the timer
+  useEffect(() => {
+    if (!isSweeping) return;
+    const timer = setTimeout(sweep, 100 - speed);
+    return () => clearTimeout(timer);
+  }, [isSweeping, sweep, speed, dpProgress.sweeps]);
+
+
+  // --- Session Save/Load ---
+  const exportSession = () => {
+    const session = createSession({
+      // Sessions hold no patrols or doors, so their cells are saved open
+      grid: clearDynamics(grid, dynamics).grid,
+      start: startPos,
+      goal: goalPos,
+      hyperparams: { alpha, gamma, epsilon, useHeuristic, algorithm, seed, exploration, planning },
+      environment: env,
+      episode,
+      runLog,
+      qTable: qTableRef.current,
+      qTableB: qTableBRef.current,
+      objectives,
+      checkpointTables: layersRef.current?.tables ?? [],
+    });
+    downloadFile(`q-learning-session-ep${episode}.json`, JSON.stringify(session), 'application/json');
+    setSessionStatus({ kind: 'ok', message: `Exported session at episode ${episode}.` });
+  };
+
+  const importSession = (json: string) => {
+    try {
+      const session = parseSession(json);
+      const { hyperparams: hp } = session;
+      setIsRunning(false);
+      setGrid(session.grid);
+      setStartPos(session.start);
+      setGoalPos(session.goal);
+      setDynamics(d => ({ ...d, patrols: [], doors: [] }));
+      setAlpha(hp.alpha);
+      setGamma(hp.gamma);
+      setEpsilon(hp.epsilon);
+      importedHeuristicRef.current = hp.useHeuristic !== useHeuristic;
+      setUseHeuristic(hp.useHeuristic);
+      setAlgorithm(hp.algorithm);
+      setExploration(hp.exploration);
+      setPlanning(hp.planning);
+      setSeed(hp.seed);
+      setEnv(session.environment);
+      qTableRef.current = session.qTable;
+      qTableBRef.current = session.qTableB;
+      rngRef.current = createRng(hp.seed);
+      visitsRef.current = createVisitCounts(session.grid[0].length, session.grid.length);
+      setObjectives(session.objectives);
+      layersRef.current = session.checkpointTables.length === 0 ? null : {
+        tables: session.checkpointTables,
+        visits: session.checkpointTables.map(() => createVisitCounts(session.grid[0].length, session.grid.length)),
+      };
+      kinTablesRef.current = initKinematicTables(
+        session.grid[0].length, session.grid.length, hp.useHeuristic, session.goal, hp.algorithm === 'DOUBLE_Q',
+        hp.exploration.optimisticInit,
+      );
+      kinVisitsRef.current = createKinematicVisits(session.grid[0].length, session.grid.length);
+      modelRef.current = createModel();
+      setPlanned(new Set());
+      lastUpdatesRef.current = new Map();
+      trajectoryRef.current = [];
+      setRecordings([]);
+      setReplayEpisode(null);
+      buildSquad(session, squadSetup);
+      setInspected(null);
+      setHighlight(null);
+      setEpisode(session.episode);
+      setHistory([]);
+      setGoalCount(0);
+      setRunLog(session.runLog);
+      setEpisodeState(startEpisode(session.start));
+      setKinState(startEpisode(startCar(session.start)));
+      setIsSweeping(false);
+      setDpProgress(NO_DP_PROGRESS);
+      policyRef.current = null;
+      setSessionStatus({ kind: 'ok', message: `Imported session at episode ${session.episode}.` });
+    } catch (err) {
+      if (!(err instanceof SessionError)) throw err;
+      setSessionStatus({ kind: 'error', message: `Import failed: ${err.message}` });
+    }
+  };
+
+  const shareMaze = async () => {
+    const url = `${window.location.origin}${window.location.pathname}#maze=${encodeMaze(clearDynamics(grid, dynamics).grid)}`;
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setSessionStatus({ kind: 'ok', message: 'Share link copied to clipboard.' });
+    } catch {
+      setSessionStatus({ kind: 'ok', message: 'Share link is in the address bar.' });
+    }
+  };
+
+  // --- Oracle ---
+  // Re-solved only when the maze or objective changes; the metrics follow every step.
+  // It knows the single goal only, so extra goals and checkpoints switch it off.
+  // Patrols and doors change the maze every patrol period, which would re-solve it
+  // mid-training and leave it answering for a maze that is already gone.
+  const oracleBlocked = hasObjectives(objectives) || dynamics.patrols.length > 0 || dynamics.doors.length > 0;
+  const oracle = useMemo(
+    () => showOracle && !kinematic && !oracleBlocked && grid.length > 0 ? solveOracle(grid, startPos, goalPos, env, gamma) : null,
+    [showOracle, kinematic, oracleBlocked, grid, startPos, goalPos, env, gamma],
+  );
+  const oraclePath = new Set(oracle?.path?.map(p => `${p.x},${p.y}`));
+
+  // --- Linear agent on the current maze ---
+  const linearPath = useMemo(
+    () => !kinematic && grid.length > 0 ? evaluateLinear(linearModel, { grid, start: startPos, goal: goalPos }, env) : null,
+    [linearModel, kinematic, grid, startPos, goalPos, env],
+  );
+  const linearTable = useMemo(
+    () => showLinear && !kinematic && grid.length > 0 ? linearQTable(linearModel, grid, goalPos, env) : null,
+    [linearModel, showLinear, kinematic, grid, goalPos, env],
+  );
+  const linearRoute = new Set(showLinear ? linearPath?.map(p => `${p.x},${p.y}`) : []);
+
+  // The replayed car and its trail replace the live car while a recording is open
+  const shownCar = replaying ? replayPosition(replaying, replayFrame) : carPos;
+  const trail = new Set(replaying ? replayTrail(replaying, replayFrame).map(p => `${p.x},${p.y}`) : []);
+
+  // Squad cars by cell; the lowest id is drawn when several share one
+  const squadCars = squadRef.current;
+  const squadAt = new Map<string, string>();
+  [...squadCars].reverse().forEach(car => squadAt.set(`${car.state.pos.x},${car.state.pos.y}`, car.color));
+
+  // --- Renderer ---
+
+  // Icons shrink with the cells on large grids
+  const iconSize = Math.max(8, Math.min(20, Math.floor(600 / Math.max(width, height)) - 4));
+
+  // Double Q-learning is shown as the average of its two tables.
+  // With own tables per car, the grid shows the car picked in the Multi-Agent card;
+  // in kinematic mode, the heading/speed slice picked in the Kinematics card;
+  // with the linear agent on show, its Q-values laid out as a table.
+  // With checkpoints, the main car's layer for the checkpoints it holds.
+  const mainLayer = layerFor({ qTable: qTableRef.current, qTableB: qTableBRef.current }, visitsRef.current, layersRef.current, episodeState.mask);
+  const mainTables = mainLayer.tables;
+  const shownSlice = followCar ? kinState.pos : viewSlice;
+  const viewedTables = kinematic
+    ? kinTablesRef.current[sliceIndex(shownSlice)]
+    : linearTable
+      ? { qTable: linearTable, qTableB: null }
+      : squadRef.current.find(car => car.id === viewedCar)?.tables ?? mainTables;
+  const getCellQ = (x: number, y: number) => getQValues(viewedTables, { x, y });
+
+  // The heatmap follows the viewed tables; visits and TD errors only exist for the tabular agents
+  const viewedSquadCar = kinematic || linearTable ? undefined : squadRef.current.find(car => car.id === viewedCar && car.tables);
+  const heatmap = computeHeatmap(kinematic && heatLayer === 'ACTIONS' ? 'VALUE' : heatLayer, {
+    grid,
+    qValues: p => getCellQ(p.x, p.y),
+    visits: kinematic ? kinVisitsRef.current[sliceIndex(shownSlice)] : linearTable ? null : viewedSquadCar?.visits ?? mainLayer.visits,
+    lastUpdates: kinematic || linearTable || viewedSquadCar ? null : lastUpdatesRef.current,
+    knob: epsilon,
+    exploration,
+  });
+  const signedHeat = isSigned(heatmap.layer);
+  const collected = kinematic ? 0 : collectedCount(episodeState.mask);
+  
+  const getCellColor = (x: number, y: number, type: CellType) => {
+    if (type === 'WALL') return 'bg-gray-900';
+    if (type === 'START') return 'bg-green-500/20'; 
+    if (type === 'GOAL') return 'bg-red-500/20';
+    if (type === 'PIT') return 'bg-red-950';
+
+    // Per-action values are drawn as triangles over a white cell
+    const values = heatmap.cells[y][x];
+    if (!values || !heatmap.range || heatmap.layer === 'ACTIONS') return 'bg-white';
+    return heatColor(values[0], heatmap.range, signedHeat) ?? 'bg-white';
+  };
+
+  const oracleMetrics = oracle
+    ? compareToOracle(oracle, grid, startPos, goalPos, env, p => getCellQ(p.x, p.y))
+    : null;
+
+  const getArrow = (x: number, y: number) => {
+     if (!showArrows) return null;
+     const bestIdx = policyArrow(getCellQ(x, y), useHeuristic);
+     if (bestIdx === null) return null;
+
+     // Kinematic controls are drawn relative to the slice's heading
+     const rotation = (kinematic ? shownSlice.heading : bestIdx) * 90; 
+     
+     return (
+        <div 
+            className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-40"
+            style={{ transform: `rotate(${rotation}deg)` }}
+        >
+            <span className="text-xs font-bold text-gray-800">{kinematic ? KINEMATIC_ACTIONS[bestIdx].symbol : '↑'}</span>
+        </div>
+     );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center p-4 font-sans text-slate-800">
+      
+      {/* Header */}
+      <div className="w-full max-w-5xl mb-6 flex justify-between items-center">
+        <div>
+            <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-2">
+                <Car className="w-8 h-8 text-blue-600" />
+                Q-Learning Car
+            </h1>
+            <p className="text-sm text-slate-500">Reinforcement Learning Pathfinder</p>
+            {workerError && <p className="mt-1 text-xs text-red-600">{workerError}</p>}
+        </div>
+        
+        <div className="flex gap-3">
+             <button 
+                onClick={() => { setIsSweeping(false); setHighlight(null); setReplayEpisode(null); setIsRunning(!isRunning); }}
+                disabled={isTraining}
+                className={`flex items-center gap-2 px-6 py-2 rounded-full font-bold shadow-sm transition-all ${
+                    isRunning ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-green-600 text-white hover:bg-green-700'
+                }`}
+            >
+                {isRunning ? <><Pause size={18}/> Pause</> : <><Play size={18}/> Start Learning</>}
+            </button>
+            <button 
+                onClick={stepOnce}
+                disabled={isRunning || isTraining || isSweeping || kinematic}
+                title="Run exactly one learning step and inspect the updated cell"
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full hover:bg-indigo-50 text-indigo-700 transition-all disabled:opacity-50"
+            >
+                <StepForward size={16}/> Step once
+            </button>
+            <button 
+                onClick={trainHeadless}
+                disabled={isTraining || squadSetup.enabled}
+                title={squadSetup.enabled ? 'Headless training runs the main agent only; turn off multi-agent mode first' : undefined}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full hover:bg-blue-50 text-blue-700 transition-all disabled:opacity-50"
+            >
+                <FastForward size={16}/> {isTraining ? 'Training...' : `Train ${TRAIN_EPISODES} episodes`}
+            </button>
+            <button 
+                onClick={resetLearning}
+                disabled={isTraining}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full hover:bg-slate-50 text-slate-700 transition-all"
+            >
+                <RotateCcw size={16}/> Reset Agent
+            </button>
+            <button 
+                onClick={resetGrid}
+                disabled={isTraining}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-full hover:bg-red-50 text-red-600 transition-all"
+            >
+                <Trash2 size={16}/> Clear Walls
+            </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-8 w-full max-w-5xl">
+        
+        {/* Left: The Grid */}
+        <div className="flex-1 flex flex-col items-center">
+            <div 
+                className="bg-white p-2 rounded-xl shadow-lg border border-slate-200 select-none relative"
+                onMouseLeave={releaseCell}
+            >
+                {useCanvas ? (
+                    <GridCanvas
+                        grid={grid}
+                        heatmap={heatmap}
+                        qValues={(p) => getCellQ(p.x, p.y)}
+                        useHeuristic={useHeuristic}
+                        showArrows={showArrows}
+                        arrowSymbols={kinematic ? KINEMATIC_ACTIONS.map(a => a.symbol) : null}
+                        arrowHeading={shownSlice.heading}
+                        start={startPos}
+                        goal={goalPos}
+                        car={shownCar}
+                        carHeading={kinematic && !replaying ? kinState.pos.heading : null}
+                        carColor={replaying ? '#7c3aed' : '#2563eb'}
+                        dynamics={dynamics}
+                        extraGoals={objectives.goals.map(g => g.pos)}
+                        checkpoints={objectives.checkpoints}
+                        collected={collected}
+                        oraclePath={oraclePath}
+                        planned={replaying ? new Set() : planned}
+                        linearRoute={linearRoute}
+                        trail={trail}
+                        squadAt={replaying ? new Map() : squadAt}
+                        marked={[highlight, inspected].filter((p): p is Pos => p !== null)}
+                        onCellDown={pressCell}
+                        onCellEnter={(x, y) => { if(isDragging) handleCellClick(x, y); }}
+                        onRelease={releaseCell}
+                    />
+                ) : (
+                    <div 
+                        className="grid gap-[1px] bg-slate-200"
+                        style={{ 
+                            gridTemplateColumns: `repeat(${width}, minmax(0, 1fr))`,
+                            gridTemplateRows: `repeat(${height}, minmax(0, 1fr))`,
+                            // The longer side gets the full board size
+                            width: `calc(min(600px, 90vw) * ${width / Math.max(width, height)})`,
+                            height: `calc(min(600px, 90vw) * ${height / Math.max(width, height)})`
+                        }}
+                    >
+                        {grid.map((row, y) => (
+                            row.map((cellType, x) => {
+                                const isCar = shownCar.x === x && shownCar.y === y;
+                                const isStart = startPos.x === x && startPos.y === y;
+                                const isGoal = goalPos.x === x && goalPos.y === y;
+                                const patrol = patrolAt(dynamics, { x, y });
+                                const isMarked = (highlight?.x === x && highlight.y === y) || (inspected?.x === x && inspected.y === y);
+                                const heat = heatmap.cells[y][x];
+                                const checkpoint = checkpointIndex(objectives, { x, y });
+
+                                return (
+                                    <div 
+                                        key={`${x}-${y}`}
+                                        onMouseDown={() => pressCell(x, y)}
+                                        onMouseEnter={() => { if(isDragging) handleCellClick(x, y); }}
+                                        onMouseUp={releaseCell}
+                                        className={`relative transition-colors duration-150 cursor-pointer overflow-hidden ${getCellColor(x, y, cellType)} ${isMarked ? 'ring-2 ring-inset ring-indigo-500' : ''}`}
+                                        style={{ backgroundColor: getCellColor(x, y, cellType) }} 
+                                    >
+                                        {heatmap.layer === 'ACTIONS' && heatmap.range && heat && <ActionHeat values={heat} range={heatmap.range} />}
+                                        {isStart && <div className="absolute inset-0 flex items-center justify-center opacity-30 text-green-700 font-bold">S</div>}
+                                        {isGoal && <div className="absolute inset-0 flex items-center justify-center text-red-600"><Flag size={iconSize} fill="currentColor"/></div>}
+                                    
+                                        <TerrainMark type={cellType} size={iconSize - 4} />
+                                        {isDoor(dynamics, { x, y }) && <DynamicMark kind="DOOR" open={cellType !== 'WALL'} size={iconSize - 4} />}
+                                        {patrol && <DynamicMark kind={patrol.axis} size={iconSize - 4} />}
+                                        {extraGoalAt(objectives, { x, y }) && <ObjectiveMark kind="GOAL" size={iconSize} />}
+                                        {checkpoint >= 0 && (
+                                            <ObjectiveMark kind="CHECKPOINT" label={`${checkpoint + 1}`} collected={checkpoint < collected} size={iconSize} />
+                                        )}
+
+                                        {oraclePath.has(`${x},${y}`) && (
+                                            <div className="absolute inset-[30%] rounded-full bg-amber-400/80 ring-1 ring-amber-600/50 pointer-events-none" />
+                                        )}
+
+                                        {planned.has(`${x},${y}`) && !replaying && (
+                                            <div className="absolute inset-0 bg-amber-300/40 pointer-events-none" />
+                                        )}
+
+                                        {linearRoute.has(`${x},${y}`) && !isCar && (
+                                            <div className="absolute inset-[34%] rounded-sm bg-sky-500/70 pointer-events-none" />
+                                        )}
+
+                                        {trail.has(`${x},${y}`) && !isCar && (
+                                            <div className="absolute inset-[38%] rounded-full bg-violet-500/70 pointer-events-none" />
+                                        )}
+
+                                        {squadAt.has(`${x},${y}`) && !replaying && (
+                                            <div
+                                                className="absolute inset-[18%] rounded-full border-2 border-white shadow pointer-events-none"
+                                                style={{ backgroundColor: squadAt.get(`${x},${y}`) }}
+                                            />
+                                        )}
+
+                                        {!isCar && cellType !== 'WALL' && cellType !== 'PIT' && !isGoal && getArrow(x, y)}
+
+                                        {isCar && (
+                                            <div className="absolute inset-0 z-10 flex items-center justify-center transition-all duration-100">
+                                                <div className={`${replaying ? 'bg-violet-600' : 'bg-blue-600'} text-white p-1 rounded-full shadow-lg scale-110`}>
+                                                    {kinematic && !replaying
+                                                        ? <Navigation2 size={iconSize - 4} fill="currentColor" style={{ transform: `rotate(${kinState.pos.heading * 90}deg)` }} />
+                                                        : <Car size={iconSize - 4} />}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })
+                        ))}
+                    </div>
+                )}
+            </div>
+            
+            <TerrainPalette
+                grid={grid}
+                tool={tool}
+                env={env}
+                onToolChange={setTool}
+                onEnvChange={updateEnv}
+            />
+
+            <HeatmapLegend
+                heatmap={heatmap}
+                actionsAvailable={!kinematic}
+                onLayerChange={setHeatLayer}
+            />
+
+            <div className="mt-2 flex gap-4 text-xs text-slate-500 font-medium">
+                <div className="flex items-center gap-1"><div className="w-3 h-3 bg-gray-900 rounded"></div> Wall</div>
+                {oracle && <div className="flex items-center gap-1"><div className="w-3 h-3 bg-amber-400/80 rounded-full"></div> Optimal Path</div>}
+                {linearRoute.size > 0 && <div className="flex items-center gap-1"><div className="w-3 h-3 bg-sky-500/70 rounded-sm"></div> Linear Route</div>}
+                {planning.steps > 0 && !kinematic && <div className="flex items-center gap-1"><div className="w-3 h-3 bg-amber-300/40 rounded"></div> Planned</div>}
+            </div>
+        </div>
+
+        {/* Right: Dashboard */}
+        <div className="w-full lg:w-80 space-y-6">
+            
+            {/* Stats Card */}
+            <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+                <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+                    <Info size={18} className="text-blue-500"/> Live Stats
+                </h2>
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="bg-slate-50 p-3 rounded-lg">
+                        <div className="text-xs text-slate-500 uppercase font-bold">Episode</div>
+                        <div className="text-2xl font-mono text-slate-900">{episode}</div>
+                    </div>
+                    <div className="bg-slate-50 p-3 rounded-lg">
+                        <div className="text-xs text-slate-500 uppercase font-bold">Moves</div>
+                        <div className="text-2xl font-mono text-slate-900">{moves}</div>
+                    </div>
+                    <div className="col-span-2 bg-slate-50 p-3 rounded-lg">
+                         <div className="text-xs text-slate-500 uppercase font-bold">Total Reward</div>
+                         <div className={`text-xl font-mono ${totalReward > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {totalReward.toFixed(1)}
+                         </div>
+                    </div>
+                </div>
+            </div>
+
+            {inspected && !kinematic && (
+                <CellInspector
+                    pos={inspected}
+                    cellType={grid[inspected.y][inspected.x]}
+                    qValues={getQValues(mainTables, inspected)}
+                    visits={visitsRef.current[inspected.y][inspected.x]}
+                    lastUpdate={lastUpdatesRef.current.get(`${inspected.x},${inspected.y}`) ?? null}
+                    onClose={() => setInspected(null)}
+                />
+            )}
+
+            <GridSizeControls
+                key={`${width}x${height}`}
+                width={width}
+                height={height}
+                disabled={isTraining}
+                onResize={resizeGrid}
+            />
+
+            <MazeGenerator disabled={isTraining} onGenerate={generateLayout} />
+
+            <KinematicsPanel
+                enabled={kinematic}
+                car={kinState.pos}
+                slice={viewSlice}
+                followCar={followCar}
+                disabled={isTraining || squadSetup.enabled}
+                onToggle={changeKinematic}
+                onSliceChange={setViewSlice}
+                onFollowChange={follow => {
+                    // Manual picking starts from the slice the car is in
+                    setViewSlice({ heading: kinState.pos.heading, speed: kinState.pos.speed });
+                    setFollowCar(follow);
+                }}
+            />
+
+            <OraclePanel
+                enabled={showOracle && !kinematic && !oracleBlocked}
+                method={oracle?.method ?? null}
+                metrics={oracleMetrics}
+                stateCount={oracle?.reachable.length ?? 0}
+                disabled={kinematic || oracleBlocked}
+                unavailable={oracleBlocked ? 'The oracle solves the plain, fixed maze, so it is off while extra goals, checkpoints, patrols or doors are set.' : null}
+                onToggle={setShowOracle}
+            />
+
+            <DynamicProgrammingPanel
+                method={dpMethod}
+                threshold={dpThreshold}
+                progress={dpProgress}
+                isSweeping={isSweeping}
+                disabled={isTraining || kinematic}
+                onMethodChange={changeDpMethod}
+                onThresholdChange={setDpThreshold}
+                onPlayToggle={toggleSweeping}
+                onStep={sweep}
+            />
+
+            <LinearAgentPanel
+                enabled={showLinear}
+                run={linearRun}
+                generator={linearGenerator}
+                pathLength={linearPath ? linearPath.length - 1 : null}
+                batch={TRAIN_EPISODES}
+                disabled={isTraining || kinematic}
+                onToggle={setShowLinear}
+                onGeneratorChange={setLinearGenerator}
+                onTrain={trainLinear}
+                onReset={resetLinear}
+            />
+
+            <DynamicsPanel
+                dynamics={dynamics}
+                disabled={isTraining}
+                onChange={setDynamics}
+                onClear={clearAllDynamics}
+            />
+
+            <LearningCurves history={history} runLog={runLog} />
+
+            <ObjectivesPanel
+                objectives={objectives}
+                collected={collected}
+                keepTables={keepTables}
+                disabled={isRunning || isTraining}
+                onChange={changeObjectives}
+                onKeepTablesChange={setKeepTables}
+            />
+
+            <MultiAgentPanel
+                enabled={squadSetup.enabled}
+                cars={[
+                    {
+                        id: 1,
+                        color: CAR_COLORS[0],
+                        params: { alpha, gamma, epsilon, algorithm, exploration },
+                        stats: {
+                            episodes: episode,
+                            goals: goalCount,
+                            lastReturn: history.at(-1)?.return ?? null,
+                            convergence: mainConvergence,
+                        },
+                    },
+                    ...squadCars,
+                ]}
+                sharedTable={squadSetup.sharedTable}
+                viewedCar={viewedCar}
+                disabled={isTraining || kinematic}
+                onEnabledChange={enabled => changeSquad({ ...squadSetup, enabled })}
+                onCountChange={count => changeSquad({ ...squadSetup, count })}
+                onSharedChange={sharedTable => changeSquad({ ...squadSetup, sharedTable })}
+                onParamsChange={changeCarParams}
+                onViewCar={setViewedCar}
+            />
+
+            <ReplayPanel
+                recordings={recordings}
+                selected={replaying?.episode ?? null}
+                frame={replayFrame}
+                onSelect={selectReplay}
+                onFrameChange={setReplayFrame}
+                onExport={exportRecordings}
+            />
+
+            <SessionPanel
+                disabled={isTraining}
+                status={sessionStatus}
+                onExport={exportSession}
+                onImport={importSession}
+                onShare={shareMaze}
+            />
+
+            {/* Controls Card */}
+            <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+                 <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+                    <Settings size={18} className="text-slate-500"/> Hyperparameters
+                </h2>
+
+                <div className="space-y-5">
+
+                    {/* Algorithm */}
+                    <div className="space-y-1">
+                        <div className="flex justify-between items-center text-sm">
+                            <label htmlFor="algorithm" className="text-slate-600">Algorithm</label>
+                            <select 
+                                id="algorithm"
+                                value={algorithm}
+                                disabled={isTraining}
+                                onChange={(e) => changeAlgorithm(e.target.value as Algorithm)}
+                                className="px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+                            >
+                                {ALGORITHMS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                            </select>
+                        </div>
+                        <p className="text-[10px] text-slate-400 leading-tight font-mono">
+                            Target: {ALGORITHMS.find(a => a.id === algorithm)?.target}
+                        </p>
+                    </div>
+                    
+                    {/* Heuristic Toggle (Greedy) */}
+                     <div className="p-3 bg-indigo-50 rounded-lg border border-indigo-100">
+                        <div className="flex items-center justify-between mb-2">
+                             <label htmlFor="heuristic" className="text-sm font-bold text-indigo-900 flex items-center gap-2">
+                                <Compass size={16} /> Greedy Heuristic
+                             </label>
+                             <input 
+                                type="checkbox" 
+                                id="heuristic"
+                                checked={useHeuristic} 
+                                onChange={(e) => {
+                                    setUseHeuristic(e.target.checked);
+                                    // Auto-adjust epsilon if user turns on heuristic for better UX
+                                    if(e.target.checked) setEpsilon(0.2);
+                                }}
+                                className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500 border-gray-300"
+                            />
+                        </div>
+                        <p className="text-xs text-indigo-700 leading-snug">
+                            {useHeuristic 
+                                ? "ON: Car knows where the flag is (Distance). Lowers difficulty." 
+                                : "OFF: Car knows nothing. Blind exploration."}
+                        </p>
+                    </div>
+
+                    {/* Simulation Speed */}
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                            <span className="text-slate-600">Simulation Speed</span>
+                            <span className="font-mono text-slate-900">{speed === 100 ? 'Max' : `${speed}%`}</span>
+                        </div>
+                        <input 
+                            type="range" min="0" max="100" step="1"
+                            value={speed} onChange={(e) => setSpeed(Number(e.target.value))}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                        />
+                    </div>
+
+                    <hr className="border-slate-100"/>
+
+                    {/* Epsilon */}
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                            <span className="text-slate-600">Exploration ({knob})</span>
+                            <span className="font-mono text-slate-900">{epsilon.toFixed(2)}</span>
+                        </div>
+                        <input 
+                            type="range" min="0" max="1" step="0.01"
+                            value={epsilon} onChange={(e) => setEpsilon(Number(e.target.value))}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+                        />
+                        <p className="text-[10px] text-slate-400 leading-tight">
+                            {useHeuristic && epsilon > 0.3 
+                                ? "Warning: High Exploration will ignore your Heuristic!" 
+                                : "High = Try other moves. Low = Use learned path."}
+                        </p>
+                    </div>
+
+                    {/* Learning Rate */}
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                            <span className="text-slate-600">Learning Rate (Alpha)</span>
+                            <span className="font-mono text-slate-900">{alpha.toFixed(2)}</span>
+                        </div>
+                        <input 
+                            type="range" min="0.01" max="1" step="0.01"
+                            value={alpha} onChange={(e) => setAlpha(Number(e.target.value))}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                        />
+                    </div>
+
+                    <hr className="border-slate-100"/>
+
+                    {/* Seed */}
+                    <div className="space-y-1">
+                        <div className="flex justify-between items-center text-sm">
+                            <label htmlFor="seed" className="text-slate-600">Random Seed</label>
+                            <input 
+                                type="number" id="seed" min="0" step="1"
+                                value={seed} onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value))))}
+                                className="w-24 px-2 py-1 text-right font-mono text-slate-900 border border-slate-200 rounded"
+                            />
+                        </div>
+                        <p className="text-[10px] text-slate-400 leading-tight">
+                            Applied on Reset Agent. Same seed + same maze = same run.
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            <ExplorationPanel
+                exploration={exploration}
+                value={epsilon}
+                episode={episode}
+                history={history}
+                disabled={isTraining}
+                onChange={changeExploration}
+            />
+
+            <DynaPanel
+                planning={planning}
+                modelSize={modelRef.current.transitions.length}
+                disabled={isTraining || kinematic}
+                onChange={setPlanning}
+            />
+
+            <ExperimentsPanel
+                current={{ alpha, gamma, epsilon }}
+                rows={sweepRows}
+                progress={sweepProgress}
+                disabled={isTraining || kinematic}
+                onRun={runExperiments}
+                onStop={() => { stopSweepRef.current = true; }}
+                onApply={applySweepConfig}
+            />
+
+            <RewardsPanel
+                env={env}
+                gamma={gamma}
+                autoMaxSteps={getMaxSteps({ ...env, maxSteps: null }, grid)}
+                runLog={runLog}
+                disabled={isTraining}
+                onEnvChange={updateEnv}
+                onGammaChange={changeGamma}
+            />
+
+             <div className="flex items-center gap-2">
+                <input 
+                    type="checkbox" 
+                    id="showArrows"
+                    checked={showArrows} 
+                    onChange={(e) => setShowArrows(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                />
+                <label htmlFor="showArrows" className="text-sm text-slate-600 select-none cursor-pointer">Show Policy Arrows</label>
+             </div>
+
+             <div className="flex items-center gap-2">
+                <input 
+                    type="checkbox" 
+                    id="useCanvas"
+                    checked={useCanvas} 
+                    onChange={(e) => setUseCanvas(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                />
+                <label htmlFor="useCanvas" className="text-sm text-slate-600 select-none cursor-pointer" title="Draws the grid on a canvas at a fixed frame rate; keeps large mazes and high speeds smooth">
+                    Canvas Renderer (large grids)
+                </label>
+             </div>
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,82 @@
+import { Search, X } from 'lucide-react';
+import { ACTIONS, type CellType, type Pos } from '../engine/gridWorld';
+import type { Algorithm } from '../engine/algorithms';
+import type { CellUpdate } from '../engine/trainer';
+
+// What the bootstrapped next-state value means for each update rule
+const NEXT_VALUE_LABELS: Record<Algorithm, string> = {
+  Q_LEARNING: "max Q(s′,·)",
+  SARSA: "Q(s′,a′)",
+  EXPECTED_SARSA: "E[Q(s′,a′)]",
+  DOUBLE_Q: "Q_other(s′, argmax)",
+};
+
+type CellInspectorProps = {
+  pos: Pos;
+  cellType: CellType;
+  qValues: number[];
+  visits: number[];
+  lastUpdate: CellUpdate | null;
+  onClose: () => void;
+};
+
+const fmt = (v: number) => v.toFixed(3);
+
+// --- Cell Inspector: the numbers behind one cell's color and arrow ---
+const CellInspector = ({ pos, cellType, qValues, visits, lastUpdate, onClose }: CellInspectorProps) => {
+  const best = Math.max(...qValues);
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-indigo-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Search size={18} className="text-indigo-500"/> Cell ({pos.x}, {pos.y})
+          <span className="text-xs font-normal text-slate-400">{cellType.toLowerCase().replace(/_/g, ' ')}</span>
+        </h2>
+        <button onClick={onClose} title="Close inspector" className="p-1 text-slate-400 hover:text-slate-700">
+          <X size={16}/>
+        </button>
+      </div>
+
+      <table className="w-full text-sm font-mono">
+        <thead>
+          <tr className="text-xs font-sans text-slate-500 uppercase">
+            <th className="text-left font-bold">Action</th>
+            <th className="text-right font-bold">Q(s,a)</th>
+            <th className="text-right font-bold">Visits</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ACTIONS.map((action, a) => (
+            <tr key={action.name} className={qValues[a] === best ? 'text-green-700 font-bold' : 'text-slate-700'}>
+              <td className="font-sans">{action.name}</td>
+              <td className="text-right">{fmt(qValues[a])}</td>
+              <td className="text-right">{visits[a]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-4 text-xs text-slate-600">
+        <div className="font-bold uppercase text-slate-500 mb-1">Last update here</div>
+        {lastUpdate ? (
+          <div className="space-y-0.5 font-mono">
+            <div className="font-sans">
+              {ACTIONS[lastUpdate.action].name} → ({lastUpdate.next.x}, {lastUpdate.next.y})
+              {lastUpdate.algorithm === 'DOUBLE_Q' && <span className="text-slate-400"> · table {lastUpdate.table}</span>}
+            </div>
+            <div>R = {fmt(lastUpdate.reward)}</div>
+            <div>{NEXT_VALUE_LABELS[lastUpdate.algorithm]} = {fmt(lastUpdate.nextValue)}</div>
+            <div>target = R + {lastUpdate.gamma.toFixed(2)} × {fmt(lastUpdate.nextValue)} = {fmt(lastUpdate.target)}</div>
+            <div>TD error = target − old = {fmt(lastUpdate.tdError)}</div>
+            <div>Q: {fmt(lastUpdate.oldValue)} → <span className="text-indigo-700 font-bold">{fmt(lastUpdate.newValue)}</span></div>
+          </div>
+        ) : (
+          <p className="text-slate-400">No live step has updated this cell yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CellInspector;
@@ -0,0 +1,68 @@
+import { Brain } from 'lucide-react';
+import { MAX_PLANNING_STEPS, type Planning } from '../engine/dyna';
+
+type DynaPanelProps = {
+  planning: Planning;
+  modelSize: number; // Distinct (s, a) pairs the model remembers
+  disabled: boolean;
+  onChange: (planning: Planning) => void;
+};
+
+const DEFAULT_KAPPA = 0.1;
+
+// --- Dyna-Q Card: simulated updates from the learned model ---
+const DynaPanel = ({ planning, modelSize, disabled, onChange }: DynaPanelProps) => (
+  <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+    <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-4">
+      <Brain size={18} className="text-amber-500"/> Dyna-Q Planning
+    </h2>
+
+    <div className="space-y-3 text-sm text-slate-600">
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <span>Planning steps per move</span>
+          <span className="font-mono text-slate-900">{planning.steps === 0 ? 'off' : planning.steps}</span>
+        </div>
+        <input
+          type="range" min="0" max={MAX_PLANNING_STEPS} step="1"
+          value={planning.steps}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...planning, steps: Number(e.target.value) })}
+          className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="flex-1 flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={planning.kappa !== null}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...planning, kappa: e.target.checked ? DEFAULT_KAPPA : null })}
+            className="w-4 h-4 text-amber-600 rounded border-gray-300"
+          />
+          Dyna-Q+ bonus, κ =
+        </label>
+        <input
+          type="number" min="0" step="0.01"
+          value={planning.kappa ?? DEFAULT_KAPPA}
+          disabled={disabled || planning.kappa === null}
+          onChange={(e) => onChange({ ...planning, kappa: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-16 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded"
+        />
+      </div>
+
+      <div className="flex justify-between text-xs font-mono text-slate-500">
+        <span>model</span>
+        <span>{modelSize} transitions</span>
+      </div>
+      <p className="text-[10px] text-slate-400 leading-tight">
+        After every real move the car replays remembered moves through the selected update rule (SARSA
+        uses its expected target); the cells they touched flash amber. 0 is plain model-free learning. Dyna-Q+ adds κ√τ to a replayed reward, τ being the
+        moves since it was last tried, so the car re-checks paths in a changed maze. Grid car only.
+      </p>
+    </div>
+  </div>
+);
+
+export default DynaPanel;
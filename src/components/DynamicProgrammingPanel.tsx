@@ -0,0 +1,97 @@
+import { Pause, Play, Sigma, StepForward } from 'lucide-react';
+import { DP_METHODS, type DpMethod, type DpProgress } from '../engine/dynamicProgramming';
+
+const THRESHOLDS = [0.1, 0.01, 0.001, 0.0001, 0.000001];
+
+type DynamicProgrammingPanelProps = {
+  method: DpMethod;
+  threshold: number;
+  progress: DpProgress;
+  isSweeping: boolean;
+  disabled: boolean;
+  onMethodChange: (method: DpMethod) => void;
+  onThresholdChange: (threshold: number) => void;
+  onPlayToggle: () => void;
+  onStep: () => void;
+};
+
+// --- Dynamic Programming Card: model-based sweeps into the same Q-Table ---
+const DynamicProgrammingPanel = ({
+  method,
+  threshold,
+  progress,
+  isSweeping,
+  disabled,
+  onMethodChange,
+  onThresholdChange,
+  onPlayToggle,
+  onStep,
+}: DynamicProgrammingPanelProps) => (
+  <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+    <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+      <Sigma size={18} className="text-teal-500"/> Dynamic Programming
+    </h2>
+    <div className="space-y-3 text-sm text-slate-600">
+      <div className="flex justify-between items-center gap-2">
+        <select
+          value={method}
+          onChange={(e) => onMethodChange(e.target.value as DpMethod)}
+          className="px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+        >
+          {DP_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          Stop at Δ &lt;
+          <select
+            value={threshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+            className="px-1 py-1 font-mono text-slate-900 border border-slate-200 rounded bg-white"
+          >
+            {THRESHOLDS.map(t => <option key={t} value={t}>{t.toExponential(0)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-slate-50 p-3 rounded-lg">
+          <div className="text-xs text-slate-500 uppercase font-bold">Sweeps</div>
+          <div className="text-xl font-mono text-slate-900">{progress.sweeps}</div>
+        </div>
+        <div className="bg-slate-50 p-3 rounded-lg">
+          <div className="text-xs text-slate-500 uppercase font-bold">Residual</div>
+          <div className={`text-xl font-mono ${progress.converged ? 'text-green-600' : 'text-slate-900'}`}>
+            {Number.isFinite(progress.residual) ? progress.residual.toExponential(1) : '—'}
+          </div>
+        </div>
+      </div>
+
+      {progress.converged ? (
+        <p className="text-xs text-green-700">Converged after {progress.sweeps} sweeps.</p>
+      ) : progress.policyChanges !== null && (
+        <p className="text-xs text-slate-500">Policy improved: {progress.policyChanges} states changed action.</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onPlayToggle}
+          disabled={disabled}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-1 text-xs bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSweeping ? <><Pause size={14}/> Pause</> : <><Play size={14}/> Run sweeps</>}
+        </button>
+        <button
+          onClick={onStep}
+          disabled={disabled || isSweeping}
+          className="flex items-center gap-1 px-3 py-1 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+        >
+          <StepForward size={14}/> One sweep
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-400 leading-tight">
+        Uses the known transition model instead of experience. Writes into the same Q-Table, so colors and arrows show its progress; Reset Agent starts over.
+      </p>
+    </div>
+  </div>
+);
+
+export default DynamicProgrammingPanel;
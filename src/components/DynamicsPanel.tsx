@@ -0,0 +1,90 @@
+import { Shuffle, Trash2 } from 'lucide-react';
+import type { Dynamics } from '../engine/dynamics';
+
+type DynamicsPanelProps = {
+  dynamics: Dynamics;
+  disabled: boolean;
+  onChange: (dynamics: Dynamics) => void;
+  onClear: () => void;
+};
+
+const INTERVALS: { key: 'patrolPeriod' | 'doorInterval' | 'goalInterval'; label: string; unit: string; min: number }[] = [
+  { key: 'patrolPeriod', label: 'Patrols move every', unit: 'steps', min: 1 },
+  { key: 'doorInterval', label: 'Doors toggle every', unit: 'episodes', min: 0 },
+  { key: 'goalInterval', label: 'Goal jumps every', unit: 'episodes', min: 0 },
+];
+
+const DEFAULT_BOOST = 0.5;
+
+// --- Dynamics Card: schedules for patrols, doors and goal relocation ---
+const DynamicsPanel = ({ dynamics, disabled, onChange, onClear }: DynamicsPanelProps) => {
+  const setSchedule = (key: typeof INTERVALS[number]['key'], min: number, value: number) => {
+    if (!Number.isFinite(value)) return;
+    onChange({ ...dynamics, [key]: Math.max(min, Math.floor(value)) });
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Shuffle size={18} className="text-orange-500"/> Dynamics
+        </h2>
+        <button
+          onClick={onClear}
+          disabled={disabled || (dynamics.patrols.length === 0 && dynamics.doors.length === 0)}
+          className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+        >
+          <Trash2 size={12}/> Clear
+        </button>
+      </div>
+
+      <div className="space-y-2 text-sm text-slate-600">
+        {INTERVALS.map(({ key, label, unit, min }) => (
+          <label key={key} className="flex items-center gap-2">
+            <span className="flex-1">{label}</span>
+            <input
+              type="number" min={min} step="1"
+              value={dynamics[key]}
+              disabled={disabled}
+              onChange={(e) => setSchedule(key, min, Number(e.target.value))}
+              className="w-16 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded"
+            />
+            <span className="w-16 text-xs text-slate-400">{unit}</span>
+          </label>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <label className="flex-1 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={dynamics.boostEpsilon !== null}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...dynamics, boostEpsilon: e.target.checked ? DEFAULT_BOOST : null })}
+              className="w-4 h-4 text-orange-600 rounded border-gray-300"
+            />
+            Re-explore after a change, ε ≥
+          </label>
+          <input
+            type="number" min="0" max="1" step="0.05"
+            value={dynamics.boostEpsilon ?? DEFAULT_BOOST}
+            disabled={disabled || dynamics.boostEpsilon === null}
+            onChange={(e) => onChange({ ...dynamics, boostEpsilon: Math.min(1, Math.max(0, Number(e.target.value) || 0)) })}
+            className="w-16 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded"
+          />
+          <span className="w-16" />
+        </div>
+
+        <div className="flex justify-between text-xs font-mono text-slate-500">
+          <span>{dynamics.patrols.length} patrols</span>
+          <span>{dynamics.doors.length} doors</span>
+        </div>
+        <p className="text-[10px] text-slate-400 leading-tight">
+          Place doors and patrolling walls with the palette. 0 turns a schedule off. Doors toggle and the goal
+          jumps between episodes; patrols move during them and never onto a car.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DynamicsPanel;
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { FlaskConical, Square } from 'lucide-react';
+import {
+  FINAL_WINDOW,
+  SWEEP_AXES,
+  compareRows,
+  expandSweep,
+  parseValues,
+  type ExperimentRow,
+  type Stat,
+  type SweepAxis,
+  type SweepConfig,
+  type SweepValues,
+} from '../engine/experiments';
+
+type ExperimentsPanelProps = {
+  current: SweepConfig;                      // Seeds the value fields
+  rows: ExperimentRow[];
+  progress: { done: number; total: number } | null; // Set while a sweep runs
+  disabled: boolean;
+  onRun: (values: SweepValues, seeds: number, episodes: number) => void;
+  onStop: () => void;
+  onApply: (config: SweepConfig) => void;
+};
+
+type SortKey = SweepAxis | 'convergence' | 'return';
+
+const MAX_CONFIGS = 64;
+
+const sortValue = (row: ExperimentRow, key: SortKey) =>
+  key === 'convergence' ? row.convergence?.mean ?? Infinity
+    : key === 'return' ? -row.finalReturn.mean
+    : row.config[key];
+
+const formatStat = ({ mean, std }: Stat) => `${mean.toFixed(0)} ± ${std.toFixed(0)}`;
+
+// --- Experiments Card: hyperparameter sweeps across seeds ---
+const ExperimentsPanel = ({ current, rows, progress, disabled, onRun, onStop, onApply }: ExperimentsPanelProps) => {
+  const [fields, setFields] = useState<Record<SweepAxis, string>>({
+    alpha: '0.05, 0.1, 0.5',
+    gamma: '0.8, 0.9, 0.99',
+    epsilon: String(Number(current.epsilon.toFixed(2))),
+  });
+  const [seeds, setSeeds] = useState(3);
+  const [episodes, setEpisodes] = useState(200);
+  const [sortKey, setSortKey] = useState<SortKey | null>(null); // null = best first
+
+  const parsed = Object.fromEntries(SWEEP_AXES.map(({ id }) => [id, parseValues(fields[id])]));
+  const values = SWEEP_AXES.every(({ id }) => parsed[id]) ? parsed as SweepValues : null;
+  const configCount = values ? expandSweep(values).length : 0;
+  const tooMany = configCount > MAX_CONFIGS;
+
+  const best = [...rows].sort(compareRows)[0];
+  const shown = [...rows].sort(sortKey ? (a, b) => sortValue(a, sortKey) - sortValue(b, sortKey) : compareRows);
+  const header = (key: SortKey, label: string) => (
+    <th
+      onClick={() => setSortKey(sortKey === key ? null : key)}
+      className={`px-1 py-1 font-bold cursor-pointer select-none ${sortKey === key ? 'text-sky-700' : 'text-slate-500'}`}
+      title={sortKey === key ? 'Back to best first' : 'Sort by this column'}
+    >
+      {label}
+    </th>
+  );
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <FlaskConical size={18} className="text-teal-500"/> Experiments
+      </h2>
+
+      <div className="space-y-3 text-sm text-slate-600">
+        {SWEEP_AXES.map(({ id, label }) => (
+          <label key={id} className="flex items-center gap-2">
+            <span className="w-4 font-mono">{label}</span>
+            <input
+              type="text"
+              value={fields[id]}
+              disabled={disabled}
+              onChange={(e) => setFields(f => ({ ...f, [id]: e.target.value }))}
+              className={`flex-1 px-2 py-0.5 font-mono text-slate-900 border rounded ${parsed[id] ? 'border-slate-200' : 'border-red-400'}`}
+            />
+          </label>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <span>Seeds</span>
+          <input
+            type="number" min="1" max="20" step="1"
+            value={seeds}
+            disabled={disabled}
+            onChange={(e) => setSeeds(Math.min(20, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+            className="w-12 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded"
+          />
+          <span>Episodes</span>
+          <input
+            type="number" min="10" step="50"
+            value={episodes}
+            disabled={disabled}
+            onChange={(e) => setEpisodes(Math.max(10, Math.floor(Number(e.target.value)) || 10))}
+            className="w-16 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          {progress ? (
+            <button
+              onClick={onStop}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-sm bg-amber-100 text-amber-700 rounded hover:bg-amber-200"
+            >
+              <Square size={12}/> Stop ({progress.done}/{progress.total})
+            </button>
+          ) : (
+            <button
+              onClick={() => values && onRun(values, seeds, episodes)}
+              disabled={disabled || !values || tooMany}
+              className="flex-1 px-3 py-1.5 text-sm bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+            >
+              Run {configCount} configs × {seeds} seeds
+            </button>
+          )}
+          <button
+            onClick={() => best && onApply(best.config)}
+            disabled={!best || progress !== null}
+            className="px-3 py-1.5 text-sm border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+          >
+            Apply best
+          </button>
+        </div>
+        {tooMany && <p className="text-[10px] text-red-600">At most {MAX_CONFIGS} configurations per sweep.</p>}
+
+        {rows.length > 0 && (
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-xs font-mono text-right">
+              <thead className="sticky top-0 bg-white">
+                <tr>
+                  {header('alpha', 'α')}
+                  {header('gamma', 'γ')}
+                  {header('epsilon', 'ε')}
+                  {header('convergence', 'conv.')}
+                  {header('return', 'return')}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(row => (
+                  <tr
+                    key={`${row.config.alpha}-${row.config.gamma}-${row.config.epsilon}`}
+                    className={row === best ? 'bg-teal-50 text-slate-900' : 'text-slate-600'}
+                  >
+                    <td className="px-1">{row.config.alpha}</td>
+                    <td className="px-1">{row.config.gamma}</td>
+                    <td className="px-1">{row.config.epsilon}</td>
+                    <td className="px-1" title={`${row.converged}/${row.runs} runs converged`}>
+                      {row.convergence ? formatStat(row.convergence) : '—'}
+                      <span className="text-slate-400"> {row.converged}/{row.runs}</span>
+                    </td>
+                    <td className="px-1">{formatStat(row.finalReturn)}</td>
+                    <td className="px-1">
+                      <button
+                        onClick={() => onApply(row.config)}
+                        disabled={progress !== null}
+                        className="text-sky-600 hover:underline disabled:opacity-50"
+                      >
+                        apply
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-[10px] text-slate-400 leading-tight">
+          Every combination trains from scratch on a snapshot of this maze with the current algorithm, exploration and
+          rewards. Conv. is mean ± std episodes until the greedy path settled (runs that converged / runs); return is
+          the mean of the last {FINAL_WINDOW} episodes. The same sweep runs from a terminal with <code>npm run sweep</code>.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentsPanel;
@@ -0,0 +1,168 @@
+import { Sparkles } from 'lucide-react';
+import {
+  SCHEDULES,
+  STRATEGIES,
+  projectSchedule,
+  type DecaySchedule,
+  type Exploration,
+  type ExplorationStrategy,
+} from '../engine/exploration';
+import type { EpisodeRecord } from '../engine/history';
+
+type ExplorationPanelProps = {
+  exploration: Exploration;
+  value: number;            // The knob right now (Hyperparams.epsilon)
+  episode: number;
+  history: EpisodeRecord[];
+  disabled: boolean;
+  onChange: (exploration: Exploration) => void;
+};
+
+// Episodes drawn either side of "now" on the schedule chart
+const PAST = 250;
+const FUTURE = 500;
+const WIDTH = 280;
+const HEIGHT = 60;
+const DEFAULT_OPTIMISM = 10;
+
+const toPoints = (values: number[], offset: number) =>
+  values.map((v, i) => `${(((offset + i) / (PAST + FUTURE)) * WIDTH).toFixed(1)},${(HEIGHT - v * HEIGHT).toFixed(1)}`).join(' ');
+
+// --- Exploration Card: strategy, decay schedule and where the knob is heading ---
+const ExplorationPanel = ({ exploration, value, episode, history, disabled, onChange }: ExplorationPanelProps) => {
+  const strategy = STRATEGIES.find(s => s.id === exploration.strategy)!;
+  const past = history.slice(-PAST).map(r => r.epsilon);
+  const future = [value, ...projectSchedule(value, exploration, episode, FUTURE)];
+  const now = (PAST / (PAST + FUTURE)) * WIDTH;
+  const floorY = HEIGHT - exploration.floor * HEIGHT;
+
+  const setNumber = (key: 'rate' | 'floor' | 'stepEvery', raw: string, min: number, max: number) => {
+    const v = Number(raw);
+    if (!Number.isFinite(v)) return;
+    const clamped = Math.min(max, Math.max(min, v));
+    onChange({ ...exploration, [key]: key === 'stepEvery' ? Math.floor(clamped) : clamped });
+  };
+
+  const changeSchedule = (schedule: DecaySchedule) =>
+    onChange({ ...exploration, schedule, rate: SCHEDULES.find(s => s.id === schedule)!.defaultRate });
+
+  const input = 'w-16 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded';
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-4">
+        <Sparkles size={18} className="text-purple-500"/> Exploration
+      </h2>
+
+      <div className="space-y-3 text-sm text-slate-600">
+        <div className="space-y-1">
+          <div className="flex justify-between items-center">
+            <label htmlFor="strategy">Strategy</label>
+            <select
+              id="strategy"
+              value={exploration.strategy}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...exploration, strategy: e.target.value as ExplorationStrategy })}
+              className="px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+            >
+              {STRATEGIES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight font-mono">{strategy.rule}</p>
+        </div>
+
+        {/* Decay schedule */}
+        <div className="flex justify-between items-center">
+          <label htmlFor="schedule">Decay</label>
+          <select
+            id="schedule"
+            value={exploration.schedule}
+            disabled={disabled}
+            onChange={(e) => changeSchedule(e.target.value as DecaySchedule)}
+            className="px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+          >
+            {SCHEDULES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="flex-1">{exploration.schedule === 'LINEAR' ? 'Minus per episode' : 'Multiply by'}</span>
+          <input
+            type="number" min="0" max="1" step={exploration.schedule === 'LINEAR' ? 0.001 : 0.005}
+            value={exploration.rate}
+            disabled={disabled}
+            onChange={(e) => setNumber('rate', e.target.value, 0, 1)}
+            className={input}
+          />
+        </div>
+        {exploration.schedule === 'STEP' && (
+          <div className="flex items-center gap-2">
+            <span className="flex-1">Every (episodes)</span>
+            <input
+              type="number" min="1" step="1"
+              value={exploration.stepEvery}
+              disabled={disabled}
+              onChange={(e) => setNumber('stepEvery', e.target.value, 1, Infinity)}
+              className={input}
+            />
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <span className="flex-1">Floor</span>
+          <input
+            type="number" min="0" max="1" step="0.01"
+            value={exploration.floor}
+            disabled={disabled}
+            onChange={(e) => setNumber('floor', e.target.value, 0, 1)}
+            className={input}
+          />
+        </div>
+
+        {/* Optimistic initial values */}
+        <div className="flex items-center gap-2">
+          <label className="flex-1 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={exploration.optimisticInit !== null}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...exploration, optimisticInit: e.target.checked ? DEFAULT_OPTIMISM : null })}
+              className="w-4 h-4 text-purple-600 rounded border-gray-300"
+            />
+            Optimistic start, Q₀ =
+          </label>
+          <input
+            type="number" step="1"
+            value={exploration.optimisticInit ?? DEFAULT_OPTIMISM}
+            disabled={disabled || exploration.optimisticInit === null}
+            onChange={(e) => Number.isFinite(Number(e.target.value)) && onChange({ ...exploration, optimisticInit: Number(e.target.value) })}
+            className={input}
+          />
+        </div>
+
+        {/* Schedule chart: recorded values, then the projection */}
+        <div>
+          <div className="flex justify-between text-xs mb-1">
+            <span className="text-slate-500 uppercase font-bold">{strategy.knob}</span>
+            <span className="font-mono text-slate-900">{value.toFixed(3)}</span>
+          </div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-16 bg-slate-50 rounded" preserveAspectRatio="none">
+            <line x1={0} x2={WIDTH} y1={floorY} y2={floorY} stroke="#cbd5e1" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+            <line x1={now} x2={now} y1={0} y2={HEIGHT} stroke="#cbd5e1" vectorEffect="non-scaling-stroke" />
+            <polyline points={toPoints(past, PAST - past.length)} fill="none" stroke="#9333ea" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            <polyline points={toPoints(future, PAST)} fill="none" stroke="#9333ea" strokeDasharray="4 3" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          </svg>
+          <div className="flex justify-between text-[10px] font-mono text-slate-400">
+            <span>last {PAST} episodes</span>
+            <span>next {FUTURE} (dashed)</span>
+          </div>
+        </div>
+
+        <p className="text-[10px] text-slate-400 leading-tight">
+          The {strategy.knob.toLowerCase()} decays after every episode and never below the floor. UCB counts visits
+          per cell. Optimistic values apply on Reset Agent; with the heuristic on they are ignored.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ExplorationPanel;
@@ -0,0 +1,385 @@
+import { useEffect, useRef, type MouseEvent } from 'react';
+import {
+  ACTIONS,
+  ONE_WAY_DIRECTION,
+  isOneWay,
+  isTeleport,
+  type Grid,
+  type Pos,
+  type TeleportCell,
+} from '../engine/gridWorld';
+import type { Dynamics } from '../engine/dynamics';
+import { isSigned, type Heatmap } from '../engine/heatmap';
+import { ACTION_TRIANGLES, heatColor, policyArrow } from '../utils/cellStyle';
+
+type GridCanvasProps = {
+  grid: Grid;
+  heatmap: Heatmap;
+  qValues: (p: Pos) => number[];  // The Q-values the arrows follow
+  useHeuristic: boolean;
+  showArrows: boolean;
+  arrowSymbols: string[] | null;  // Kinematic controls, drawn relative to arrowHeading; null = grid directions
+  arrowHeading: number;
+  start: Pos;
+  goal: Pos;
+  car: Pos;
+  carHeading: number | null;      // Kinematic heading; null draws the grid car
+  carColor: string;
+  dynamics: Dynamics;
+  extraGoals: Pos[];
+  checkpoints: Pos[];             // In collection order
+  collected: number;              // Checkpoints the car holds this episode
+  oraclePath: Set<string>;        // Overlays keyed "x,y", as in the DOM renderer
+  planned: Set<string>;
+  linearRoute: Set<string>;
+  trail: Set<string>;
+  squadAt: Map<string, string>;   // Squad car color by cell
+  marked: Pos[];                  // Highlighted and inspected cells
+  onCellDown: (x: number, y: number) => void;
+  onCellEnter: (x: number, y: number) => void;
+  onRelease: () => void;
+};
+
+// Redraws are capped at this rate however fast the simulation steps
+const FPS = 30;
+const FRAME_MS = 1000 / FPS;
+
+// Same palette as the DOM renderer's Tailwind classes
+const COLORS = {
+  gap: '#e2e8f0',      // slate-200
+  empty: '#ffffff',
+  wall: '#111827',     // gray-900
+  pit: '#450a0a',      // red-950
+  pitMark: '#fca5a5',  // red-300
+  start: 'rgba(34, 197, 94, 0.2)',
+  startMark: 'rgba(21, 128, 61, 0.3)',
+  goal: 'rgba(239, 68, 68, 0.2)',
+  flag: '#dc2626',     // red-600
+  mud: 'rgba(180, 83, 9, 0.4)',
+  ice: 'rgba(125, 211, 252, 0.5)',
+  oneWay: 'rgba(203, 213, 225, 0.4)',
+  oneWayMark: '#475569',
+  door: '#f97316',     // orange-500
+  patrol: '#fbbf24',   // amber-400
+  extra: '#f59e0b',    // amber-500
+  check: '#10b981',    // emerald-500
+  held: '#a7f3d0',     // emerald-200
+  heldMark: '#059669', // emerald-600
+  oracle: 'rgba(251, 191, 36, 0.8)',
+  planned: 'rgba(252, 211, 77, 0.4)',
+  linear: 'rgba(14, 165, 233, 0.7)',
+  trail: 'rgba(139, 92, 246, 0.7)',
+  marked: '#6366f1',   // indigo-500
+  arrow: 'rgba(31, 41, 55, 0.4)',
+};
+
+const TELEPORT_COLORS: Record<TeleportCell, { label: string; color: string }> = {
+  TELEPORT_A: { label: 'A', color: '#8b5cf6' },
+  TELEPORT_B: { label: 'B', color: '#d946ef' },
+  TELEPORT_C: { label: 'C', color: '#06b6d4' },
+};
+
+// Match the backing store to the displayed size; true if it changed (which clears it)
+const fitCanvas = (canvas: HTMLCanvasElement) => {
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * ratio);
+  const height = Math.round(canvas.clientHeight * ratio);
+  if (canvas.width === width && canvas.height === height) return false;
+  canvas.width = width;
+  canvas.height = height;
+  return true;
+};
+
+// Triangle pointing along (dx, dy), added to the current path
+const addTriangle = (ctx: CanvasRenderingContext2D, cx: number, cy: number, dx: number, dy: number, r: number) => {
+  ctx.moveTo(cx + dx * r, cy + dy * r);
+  ctx.lineTo(cx - dx * r * 0.6 - dy * r * 0.6, cy - dy * r * 0.6 + dx * r * 0.6);
+  ctx.lineTo(cx - dx * r * 0.6 + dy * r * 0.6, cy - dy * r * 0.6 - dx * r * 0.6);
+  ctx.closePath();
+};
+
+const fillCircle = (ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number, color: string) => {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(cx, cy, r, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// --- Drawing: one full pass over the grid per frame ---
+// A pennant on a pole, filling most of the cell
+const drawFlag = (ctx: CanvasRenderingContext2D, cx: number, cy: number, cell: number, color: string) => {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = Math.max(1, cell * 0.08);
+  ctx.beginPath();
+  ctx.moveTo(cx - cell * 0.25, cy + cell * 0.35);
+  ctx.lineTo(cx - cell * 0.25, cy - cell * 0.35);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(cx - cell * 0.25, cy - cell * 0.35);
+  ctx.lineTo(cx + cell * 0.3, cy - cell * 0.15);
+  ctx.lineTo(cx - cell * 0.25, cy + cell * 0.05);
+  ctx.fill();
+};
+
+const drawScene = (ctx: CanvasRenderingContext2D, scene: GridCanvasProps, pixelWidth: number, pixelHeight: number) => {
+  const { grid, heatmap, qValues, useHeuristic } = scene;
+  const { range } = heatmap;
+  const signed = isSigned(heatmap.layer);
+  const perAction = heatmap.layer === 'ACTIONS';
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+  if (width === 0) return;
+  const cell = Math.min(pixelWidth / width, pixelHeight / height);
+  const gap = cell >= 6 ? 1 : 0;
+  const center = (i: number) => (i + 0.5) * cell - gap / 2;
+  const key = (x: number, y: number) => `${x},${y}`;
+  const isAt = (p: Pos, x: number, y: number) => p.x === x && p.y === y;
+
+  ctx.fillStyle = COLORS.gap;
+  ctx.fillRect(0, 0, pixelWidth, pixelHeight);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Backgrounds and terrain
+  grid.forEach((row, y) => row.forEach((type, x) => {
+    const left = x * cell;
+    const top = y * cell;
+    const size = cell - gap;
+    ctx.fillStyle = type === 'WALL' ? COLORS.wall
+      : type === 'PIT' ? COLORS.pit
+      : type === 'START' ? COLORS.start
+      : type === 'GOAL' ? COLORS.goal
+      : COLORS.empty;
+    ctx.fillRect(left, top, size, size);
+
+    const heat = heatmap.cells[y][x];
+    if (heat && range && type !== 'START') {
+      if (perAction) {
+        ACTION_TRIANGLES.forEach((points, a) => {
+          const color = heatColor(heat[a], range, true);
+          if (!color) return;
+          ctx.fillStyle = color;
+          ctx.beginPath();
+          points.forEach(([u, v]) => ctx.lineTo(left + u * size, top + v * size));
+          ctx.fill();
+        });
+      } else {
+        const color = heatColor(heat[0], range, signed);
+        if (color) {
+          ctx.fillStyle = color;
+          ctx.fillRect(left, top, size, size);
+        }
+      }
+    }
+
+    if (type === 'MUD' || type === 'ICE') {
+      ctx.fillStyle = type === 'MUD' ? COLORS.mud : COLORS.ice;
+      ctx.fillRect(left, top, size, size);
+    } else if (type === 'PIT' && cell >= 8) {
+      const r = cell * 0.2;
+      ctx.strokeStyle = COLORS.pitMark;
+      ctx.lineWidth = Math.max(1, cell * 0.08);
+      ctx.beginPath();
+      ctx.moveTo(center(x) - r, center(y) - r);
+      ctx.lineTo(center(x) + r, center(y) + r);
+      ctx.moveTo(center(x) + r, center(y) - r);
+      ctx.lineTo(center(x) - r, center(y) + r);
+      ctx.stroke();
+    } else if (isOneWay(type)) {
+      const { dx, dy } = ACTIONS[ONE_WAY_DIRECTION[type]];
+      ctx.fillStyle = COLORS.oneWay;
+      ctx.fillRect(left, top, size, size);
+      ctx.fillStyle = COLORS.oneWayMark;
+      ctx.beginPath();
+      addTriangle(ctx, center(x), center(y), dx, dy, cell * 0.3);
+      ctx.fill();
+    } else if (isTeleport(type)) {
+      const { label, color } = TELEPORT_COLORS[type];
+      fillCircle(ctx, center(x), center(y), cell * 0.4, color);
+      if (cell >= 10) {
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `bold ${Math.floor(cell * 0.5)}px sans-serif`;
+        ctx.fillText(label, center(x), center(y));
+      }
+    }
+  }));
+
+  // Start and goal
+  const { start, goal } = scene;
+  if (cell >= 8) {
+    ctx.fillStyle = COLORS.startMark;
+    ctx.font = `bold ${Math.floor(cell * 0.5)}px sans-serif`;
+    ctx.fillText('S', center(start.x), center(start.y));
+  }
+  drawFlag(ctx, center(goal.x), center(goal.y), cell, COLORS.flag);
+
+  // Extra goals and numbered checkpoints, faded once collected
+  scene.extraGoals.forEach(({ x, y }) => drawFlag(ctx, center(x), center(y), cell, COLORS.extra));
+  scene.checkpoints.forEach(({ x, y }, i) => {
+    const collected = i < scene.collected;
+    fillCircle(ctx, center(x), center(y), cell * 0.4, collected ? COLORS.held : COLORS.check);
+    if (cell >= 10) {
+      ctx.fillStyle = collected ? COLORS.heldMark : '#ffffff';
+      ctx.font = `bold ${Math.floor(cell * 0.5)}px sans-serif`;
+      ctx.fillText(String(i + 1), center(x), center(y));
+    }
+  });
+
+  // Doors and patrolling walls
+  ctx.strokeStyle = COLORS.door;
+  ctx.lineWidth = Math.max(1, cell * 0.1);
+  scene.dynamics.doors.forEach(({ x, y }) => {
+    ctx.globalAlpha = grid[y]?.[x] === 'WALL' ? 1 : 0.5;
+    ctx.strokeRect(x * cell + cell * 0.2, y * cell + cell * 0.15, cell * 0.6 - gap, cell * 0.7 - gap);
+  });
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = COLORS.patrol;
+  scene.dynamics.patrols.forEach(({ axis, route, index }) => {
+    const { x, y } = route[index];
+    const [dx, dy] = axis === 'HORIZONTAL' ? [cell * 0.3, 0] : [0, cell * 0.3];
+    ctx.beginPath();
+    ctx.moveTo(center(x) - dx, center(y) - dy);
+    ctx.lineTo(center(x) + dx, center(y) + dy);
+    ctx.stroke();
+  });
+
+  // Overlays, in the DOM renderer's stacking order
+  const { car, oraclePath, planned, linearRoute, trail, squadAt } = scene;
+  grid.forEach((row, y) => row.forEach((_, x) => {
+    const k = key(x, y);
+    const isCar = isAt(car, x, y);
+    if (oraclePath.has(k)) fillCircle(ctx, center(x), center(y), cell * 0.2, COLORS.oracle);
+    if (planned.has(k)) {
+      ctx.fillStyle = COLORS.planned;
+      ctx.fillRect(x * cell, y * cell, cell - gap, cell - gap);
+    }
+    if (linearRoute.has(k) && !isCar) {
+      ctx.fillStyle = COLORS.linear;
+      ctx.fillRect(x * cell + cell * 0.34, y * cell + cell * 0.34, cell * 0.32 - gap, cell * 0.32 - gap);
+    }
+    if (trail.has(k) && !isCar) fillCircle(ctx, center(x), center(y), cell * 0.12, COLORS.trail);
+    const squadColor = squadAt.get(k);
+    if (squadColor) {
+      fillCircle(ctx, center(x), center(y), cell * 0.32, squadColor);
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = Math.max(1, cell * 0.06);
+      ctx.stroke();
+    }
+  }));
+
+  // Policy arrows: grid directions share one path, kinematic symbols are text
+  if (scene.showArrows && cell >= 4) {
+    const { arrowSymbols, arrowHeading } = scene;
+    ctx.fillStyle = COLORS.arrow;
+    ctx.font = `bold ${Math.floor(cell * 0.5)}px sans-serif`;
+    ctx.beginPath();
+    grid.forEach((row, y) => row.forEach((type, x) => {
+      if (type === 'WALL' || type === 'PIT' || isAt(goal, x, y) || isAt(car, x, y)) return;
+      const best = policyArrow(qValues({ x, y }), useHeuristic);
+      if (best === null) return;
+      if (!arrowSymbols) {
+        addTriangle(ctx, center(x), center(y), ACTIONS[best].dx, ACTIONS[best].dy, cell * 0.25);
+        return;
+      }
+      ctx.save();
+      ctx.translate(center(x), center(y));
+      ctx.rotate((arrowHeading * Math.PI) / 2);
+      ctx.fillText(arrowSymbols[best], 0, 0);
+      ctx.restore();
+    }));
+    ctx.fill();
+  }
+
+  // Marked cells
+  ctx.strokeStyle = COLORS.marked;
+  ctx.lineWidth = Math.max(1, cell * 0.1);
+  scene.marked.forEach(({ x, y }) => {
+    const inset = ctx.lineWidth / 2;
+    ctx.strokeRect(x * cell + inset, y * cell + inset, cell - gap - inset * 2, cell - gap - inset * 2);
+  });
+
+  // The car: a heading arrow in kinematic mode, otherwise a plain marker
+  fillCircle(ctx, center(car.x), center(car.y), cell * 0.45, scene.carColor);
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  if (scene.carHeading === null) {
+    ctx.arc(center(car.x), center(car.y), cell * 0.15, 0, Math.PI * 2);
+  } else {
+    const { dx, dy } = ACTIONS[scene.carHeading];
+    addTriangle(ctx, center(car.x), center(car.y), dx, dy, cell * 0.3);
+  }
+  ctx.fill();
+};
+
+// --- Canvas Renderer: the whole grid on one element, redrawn at a fixed frame rate ---
+const GridCanvas = (props: GridCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sceneRef = useRef(props);
+  const dirtyRef = useRef(true);
+  const lastCellRef = useRef<string | null>(null);
+
+  // Every render hands the frame loop the latest scene; it draws it on its next frame
+  useEffect(() => {
+    sceneRef.current = props;
+    dirtyRef.current = true;
+  });
+
+  useEffect(() => {
+    let frame = 0;
+    let last = -Infinity;
+    const loop = (now: number) => {
+      frame = requestAnimationFrame(loop);
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx || now - last < FRAME_MS - 2) return; // Slack for frame timing jitter
+      const resized = fitCanvas(canvas);
+      if (!dirtyRef.current && !resized) return;
+      last = now;
+      dirtyRef.current = false;
+      drawScene(ctx, sceneRef.current, canvas.width, canvas.height);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const { grid, onCellDown, onCellEnter, onRelease } = props;
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+
+  const cellAt = (e: MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * width);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * height);
+    return x >= 0 && y >= 0 && x < width && y < height ? { x, y } : null;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="block cursor-pointer"
+      style={{
+        // Same footprint as the DOM grid: the longer side gets the full board size
+        width: `calc(min(600px, 90vw) * ${width / Math.max(width, height)})`,
+        height: `calc(min(600px, 90vw) * ${height / Math.max(width, height)})`,
+      }}
+      onMouseDown={(e) => {
+        const p = cellAt(e);
+        if (!p) return;
+        lastCellRef.current = `${p.x},${p.y}`;
+        onCellDown(p.x, p.y);
+      }}
+      onMouseMove={(e) => {
+        // Only entering a new cell counts, like onMouseEnter on the DOM cells
+        const p = cellAt(e);
+        if (!p || lastCellRef.current === `${p.x},${p.y}`) return;
+        lastCellRef.current = `${p.x},${p.y}`;
+        onCellEnter(p.x, p.y);
+      }}
+      onMouseUp={onRelease}
+      onMouseLeave={() => { lastCellRef.current = null; }}
+    />
+  );
+};
+
+export default GridCanvas;
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE } from '../engine/gridWorld';
+
+const PRESETS = [
+  { width: 8, height: 8 },
+  { width: 15, height: 15 },
+  { width: 40, height: 25 },
+];
+
+type GridSizeControlsProps = {
+  width: number;
+  height: number;
+  disabled: boolean;
+  onResize: (width: number, height: number) => void;
+};
+
+const clampSize = (v: number) => Math.min(MAX_GRID_SIZE, Math.max(MIN_GRID_SIZE, Math.round(v) || MIN_GRID_SIZE));
+
+// --- Grid Size Card ---
+// Inputs are drafts until applied, so typing "40" doesn't resize to 4 first.
+const GridSizeControls = ({ width, height, disabled, onResize }: GridSizeControlsProps) => {
+  const [draftWidth, setDraftWidth] = useState(width);
+  const [draftHeight, setDraftHeight] = useState(height);
+
+  const apply = (w: number, h: number) => {
+    const nextWidth = clampSize(w);
+    const nextHeight = clampSize(h);
+    setDraftWidth(nextWidth);
+    setDraftHeight(nextHeight);
+    if (nextWidth !== width || nextHeight !== height) onResize(nextWidth, nextHeight);
+  };
+
+  const inputClass = 'w-16 px-2 py-1 text-right font-mono text-slate-900 border border-slate-200 rounded';
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Grid3x3 size={18} className="text-slate-500"/> Grid Size
+      </h2>
+      <div className="flex items-center gap-2 text-sm text-slate-600">
+        <input
+          type="number" aria-label="Width" min={MIN_GRID_SIZE} max={MAX_GRID_SIZE}
+          value={draftWidth} onChange={(e) => setDraftWidth(Number(e.target.value))}
+          className={inputClass}
+        />
+        ×
+        <input
+          type="number" aria-label="Height" min={MIN_GRID_SIZE} max={MAX_GRID_SIZE}
+          value={draftHeight} onChange={(e) => setDraftHeight(Number(e.target.value))}
+          className={inputClass}
+        />
+        <button
+          onClick={() => apply(draftWidth, draftHeight)}
+          disabled={disabled}
+          className="ml-auto px-3 py-1 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-700 disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+      <div className="flex gap-2 mt-3">
+        {PRESETS.map(p => (
+          <button
+            key={`${p.width}x${p.height}`}
+            onClick={() => apply(p.width, p.height)}
+            disabled={disabled}
+            className="flex-1 px-2 py-1 text-xs font-mono border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+          >
+            {p.width}×{p.height}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-[10px] text-slate-400 leading-tight">
+        Walls, start/goal and Q-values are kept where the old and new grids overlap.
+      </p>
+    </div>
+  );
+};
+
+export default GridSizeControls;
@@ -0,0 +1,59 @@
+import { HEAT_LAYERS, isSigned, type HeatLayer, type Heatmap, type HeatRange } from '../engine/heatmap';
+import { ACTION_TRIANGLES, heatColor, scaleGradient, scaleMidpoint } from '../utils/cellStyle';
+
+// --- Per-action overlay drawn inside a grid cell for the "Q per action" layer ---
+export const ActionHeat = ({ values, range }: { values: number[]; range: HeatRange }) => (
+  <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+    {ACTION_TRIANGLES.map((points, a) => {
+      const color = heatColor(values[a], range, true);
+      return color && <polygon key={a} points={points.map(p => p.join(',')).join(' ')} fill={color} />;
+    })}
+  </svg>
+);
+
+const formatValue = (v: number) => {
+  const size = Math.abs(v);
+  return size >= 100 ? v.toFixed(0) : size >= 1 ? v.toFixed(1) : v.toFixed(2);
+};
+
+type HeatmapLegendProps = {
+  heatmap: Heatmap;
+  actionsAvailable: boolean; // Per-action triangles need the four grid directions
+  onLayerChange: (layer: HeatLayer) => void;
+};
+
+// --- Layer picker and the numeric scale of the cell colors ---
+const HeatmapLegend = ({ heatmap, actionsAvailable, onLayerChange }: HeatmapLegendProps) => {
+  const { layer, range } = heatmap;
+  const signed = isSigned(layer);
+
+  return (
+    <div className="mt-4 w-full max-w-[600px] flex items-center gap-3 text-xs text-slate-500 font-medium">
+      <select
+        value={layer}
+        onChange={(e) => onLayerChange(e.target.value as HeatLayer)}
+        title={HEAT_LAYERS.find(l => l.id === layer)?.description}
+        className="px-2 py-1 text-xs text-slate-900 border border-slate-200 rounded bg-white"
+      >
+        {HEAT_LAYERS.map(l => (
+          <option key={l.id} value={l.id} disabled={l.id === 'ACTIONS' && !actionsAvailable}>{l.label}</option>
+        ))}
+      </select>
+
+      {range ? (
+        <div className="flex-1">
+          <div className="h-2 rounded border border-slate-200" style={{ background: scaleGradient(signed) }} />
+          <div className="flex justify-between font-mono text-[10px]">
+            <span>{formatValue(range.min)}</span>
+            {signed && <span>{formatValue(scaleMidpoint(range))}</span>}
+            <span>{formatValue(range.max)}</span>
+          </div>
+        </div>
+      ) : (
+        <span className="flex-1 text-slate-400">No data for this layer yet</span>
+      )}
+    </div>
+  );
+};
+
+export default HeatmapLegend;
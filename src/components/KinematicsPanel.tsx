@@ -0,0 +1,122 @@
+import { Gauge } from 'lucide-react';
+import { ACTIONS } from '../engine/gridWorld';
+import { KINEMATIC_ACTIONS, MAX_SPEED, SLICE_COUNT, type CarState, type Slice } from '../engine/kinematics';
+
+type KinematicsPanelProps = {
+  enabled: boolean;
+  car: CarState;
+  slice: Slice;       // Heading/speed slice the grid shows
+  followCar: boolean; // Slice tracks the car's own heading and speed
+  disabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  onSliceChange: (slice: Slice) => void;
+  onFollowChange: (follow: boolean) => void;
+};
+
+const HEADING_ARROWS = ['↑', '→', '↓', '←'];
+
+const ACTION_LABELS: Record<string, string> = {
+  ACCELERATE: 'accelerate',
+  BRAKE: 'brake',
+  TURN_LEFT: 'turn left',
+  TURN_RIGHT: 'turn right',
+  COAST: 'coast',
+};
+
+// --- Kinematics Card: heading/speed car and the Q-Table slice on show ---
+const KinematicsPanel = ({
+  enabled,
+  car,
+  slice,
+  followCar,
+  disabled,
+  onToggle,
+  onSliceChange,
+  onFollowChange,
+}: KinematicsPanelProps) => {
+  const shown = followCar ? car : slice;
+  const option = (active: boolean) =>
+    `w-8 py-0.5 text-xs font-mono border rounded ${active ? 'bg-sky-600 text-white border-sky-600' : 'border-slate-200 text-slate-600 hover:bg-slate-50'} disabled:opacity-50`;
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Gauge size={18} className="text-sky-500"/> Car Kinematics
+        </h2>
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={disabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="w-4 h-4 text-sky-600 rounded border-gray-300"
+        />
+      </div>
+
+      {!enabled ? (
+        <p className="text-[10px] text-slate-400 leading-tight">
+          Give the car a heading and a speed (0–{MAX_SPEED}). It then learns to accelerate, brake, turn and coast
+          around the track, and crashing at speed costs more. Switching resets the run.
+        </p>
+      ) : (
+        <div className="space-y-3 text-sm text-slate-600">
+          <div className="flex justify-between text-xs font-mono">
+            <span>heading {ACTIONS[car.heading].name.toLowerCase()}</span>
+            <span>speed {car.speed}</span>
+          </div>
+
+          {/* Slice picker */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={followCar}
+                onChange={(e) => onFollowChange(e.target.checked)}
+                className="w-3 h-3"
+              />
+              Grid follows the car's heading and speed
+            </label>
+            <div className="flex items-center gap-1">
+              <span className="w-14 text-xs">Heading</span>
+              {HEADING_ARROWS.map((arrow, heading) => (
+                <button
+                  key={heading}
+                  disabled={followCar}
+                  onClick={() => onSliceChange({ ...slice, heading })}
+                  className={option(shown.heading === heading)}
+                >
+                  {arrow}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="w-14 text-xs">Speed</span>
+              {Array.from({ length: MAX_SPEED + 1 }, (_, speed) => (
+                <button
+                  key={speed}
+                  disabled={followCar}
+                  onClick={() => onSliceChange({ ...slice, speed })}
+                  className={option(shown.speed === speed)}
+                >
+                  {speed}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-500">
+            {KINEMATIC_ACTIONS.map(a => (
+              <span key={a.name}><span className="font-bold text-slate-800">{a.symbol}</span> {ACTION_LABELS[a.name]}</span>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight">
+            {SLICE_COUNT} heading/speed slices per cell. Arrows show the best control for the slice on show, turned to
+            its heading. Oracle, dynamic programming, multi-agent mode, the inspector and replays use the plain grid car.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KinematicsPanel;
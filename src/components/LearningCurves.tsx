@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Download, TrendingUp } from 'lucide-react';
+import { MAX_HISTORY, historyToCsv, movingAverage, type EpisodeRecord, type RunEvent } from '../engine/history';
+import { downloadFile } from '../utils/download';
+
+// Charts are downsampled to this many points so long runs stay cheap to draw
+const MAX_POINTS = 200;
+const WINDOWS = [10, 50, 100];
+const WIDTH = 280;
+const HEIGHT = 60;
+
+type ChartProps = {
+  title: string;
+  values: number[];
+  smoothing: number; // Moving-average window
+  color: string;
+  format: (v: number) => string;
+  smoothOnly?: boolean; // Skip the raw line (e.g. for 0/1 series)
+  markers: number[];    // Settings changes, as fractions of the x axis
+};
+
+// Average consecutive buckets so the polyline never exceeds MAX_POINTS
+const downsample = (values: number[]) => {
+  if (values.length <= MAX_POINTS) return values;
+  const bucket = values.length / MAX_POINTS;
+  const out: number[] = [];
+  for (let i = 0; i < MAX_POINTS; i++) {
+    const from = Math.floor(i * bucket);
+    const to = Math.max(from + 1, Math.floor((i + 1) * bucket));
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += values[j];
+    out.push(sum / (to - from));
+  }
+  return out;
+};
+
+const toPoints = (values: number[], min: number, max: number) => {
+  const range = max - min || 1;
+  const dx = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+  return values
+    .map((v, i) => `${(i * dx).toFixed(1)},${(HEIGHT - ((v - min) / range) * HEIGHT).toFixed(1)}`)
+    .join(' ');
+};
+
+const LineChart = ({ title, values, smoothing, color, format, smoothOnly, markers }: ChartProps) => {
+  const raw = downsample(values);
+  const smooth = downsample(movingAverage(values, smoothing));
+  const shown = smoothOnly ? smooth : raw;
+  const min = Math.min(...shown);
+  const max = Math.max(...shown);
+  const latest = smooth[smooth.length - 1];
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-slate-500 uppercase font-bold">{title}</span>
+        <span className="font-mono text-slate-900">{format(latest)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-16 bg-slate-50 rounded" preserveAspectRatio="none">
+        {markers.map((m, i) => (
+          <line key={i} x1={m * WIDTH} x2={m * WIDTH} y1={0} y2={HEIGHT} stroke="#f59e0b" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+        ))}
+        {!smoothOnly && <polyline points={toPoints(raw, min, max)} fill="none" stroke={color} strokeOpacity={0.25} strokeWidth={1} vectorEffect="non-scaling-stroke" />}
+        <polyline points={toPoints(smooth, min, max)} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-slate-400">
+        <span>{format(min)}</span>
+        <span>{format(max)}</span>
+      </div>
+    </div>
+  );
+};
+
+// --- Learning Curves Card ---
+const LearningCurves = ({ history, runLog }: { history: EpisodeRecord[]; runLog: RunEvent[] }) => {
+  const [smoothing, setSmoothing] = useState(WINDOWS[1]);
+
+  // A change logged at episode N first affects episode N + 1
+  const first = history[0]?.episode ?? 0;
+  const markers = [...new Set(runLog.map(e => e.episode + 1))]
+    .map(ep => (ep - first) / Math.max(1, history.length - 1))
+    .filter(m => m >= 0 && m <= 1);
+
+  const exportCsv = () => downloadFile('q-learning-history.csv', historyToCsv(history), 'text/csv');
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <TrendingUp size={18} className="text-green-600"/> Learning Curves
+        </h2>
+        <button
+          onClick={exportCsv}
+          disabled={history.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+        >
+          <Download size={12}/> CSV
+        </button>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-xs text-slate-400">Finish an episode to start the history.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center text-xs text-slate-500">
+            <span>
+              {history.length < MAX_HISTORY ? `${history.length} episodes` : `Last ${MAX_HISTORY} episodes`}
+              {markers.length > 0 && <span className="text-amber-600"> · ┆ settings changed</span>}
+            </span>
+            <label className="flex items-center gap-1">
+              Moving avg
+              <select
+                value={smoothing}
+                onChange={(e) => setSmoothing(Number(e.target.value))}
+                className="px-1 border border-slate-200 rounded bg-white"
+              >
+                {WINDOWS.map(w => <option key={w} value={w}>{w}</option>)}
+              </select>
+            </label>
+          </div>
+          <LineChart title="Steps" values={history.map(r => r.steps)} smoothing={smoothing} color="#2563eb" format={v => v.toFixed(0)} markers={markers} />
+          <LineChart title="Return" values={history.map(r => r.return)} smoothing={smoothing} color="#16a34a" format={v => v.toFixed(1)} markers={markers} />
+          <LineChart title="Goal Rate" values={history.map(r => r.outcome === 'GOAL' ? 1 : 0)} smoothing={smoothing} color="#dc2626" format={v => `${(v * 100).toFixed(0)}%`} smoothOnly markers={markers} />
+          <LineChart title="Mean |TD Error|" values={history.map(r => r.meanTdError)} smoothing={smoothing} color="#9333ea" format={v => v.toFixed(2)} markers={markers} />
+          <LineChart title="Epsilon" values={history.map(r => r.epsilon)} smoothing={1} color="#475569" format={v => v.toFixed(2)} smoothOnly markers={markers} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearningCurves;
@@ -0,0 +1,98 @@
+import { Network, RotateCcw } from 'lucide-react';
+import { GENERATORS, type Generator } from '../engine/mazeGen';
+import { FEATURE_COUNT, type LinearRun } from '../engine/linear';
+
+type LinearAgentPanelProps = {
+  enabled: boolean;             // The grid shows the linear policy
+  run: LinearRun;
+  generator: Generator | null;  // Training layouts: null = this maze with random start/goal
+  pathLength: number | null;    // Greedy path on the current maze, null if it never arrives
+  batch: number;
+  disabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  onGeneratorChange: (generator: Generator | null) => void;
+  onTrain: () => void;
+  onReset: () => void;
+};
+
+// --- Function Approximation Card: a linear Q-function over maze features ---
+const LinearAgentPanel = ({
+  enabled,
+  run,
+  generator,
+  pathLength,
+  batch,
+  disabled,
+  onToggle,
+  onGeneratorChange,
+  onTrain,
+  onReset,
+}: LinearAgentPanelProps) => (
+  <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+    <div className="flex justify-between items-center mb-4">
+      <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <Network size={18} className="text-sky-500"/> Function Approximation
+      </h2>
+      <input
+        type="checkbox"
+        checked={enabled}
+        disabled={disabled}
+        onChange={(e) => onToggle(e.target.checked)}
+        title="Show the linear policy on the grid"
+        className="w-4 h-4 text-sky-600 rounded border-gray-300"
+      />
+    </div>
+
+    <div className="space-y-3 text-sm text-slate-600">
+      <div className="flex justify-between items-center">
+        <label htmlFor="linearLayouts">Train on</label>
+        <select
+          id="linearLayouts"
+          value={generator ?? ''}
+          disabled={disabled}
+          onChange={(e) => onGeneratorChange(e.target.value ? e.target.value as Generator : null)}
+          className="px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+        >
+          <option value="">This maze, random start/goal</option>
+          {GENERATORS.map(g => <option key={g.id} value={g.id}>New {g.label} mazes</option>)}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onTrain}
+          disabled={disabled}
+          className="flex-1 px-3 py-1.5 text-sm bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+        >
+          Train {batch} episodes
+        </button>
+        <button
+          onClick={onReset}
+          disabled={disabled || run.episodes === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+        >
+          <RotateCcw size={12}/> Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-mono">
+        <span>episodes</span><span className="text-right text-slate-900">{run.episodes}</span>
+        <span>ε next batch</span><span className="text-right text-slate-900">{run.epsilon.toFixed(2)}</span>
+        <span>last batch goals</span>
+        <span className="text-right text-slate-900">{run.goalRate === null ? '—' : `${(run.goalRate * 100).toFixed(0)}%`}</span>
+        <span>this maze</span>
+        <span className={`text-right ${pathLength === null ? 'text-red-600' : 'text-green-600'}`}>
+          {pathLength === null ? 'no path' : `${pathLength} steps`}
+        </span>
+      </div>
+
+      <p className="text-[10px] text-slate-400 leading-tight">
+        Q(s,a) = w · φ(s,a) with {FEATURE_COUNT} features: goal offset, wall and pit sensors, the open run and line of
+        sight towards each direction, and tile-coded position, learned by semi-gradient Q-learning. Tick the box to
+        draw its policy and greedy route; generate an unseen maze to test how well it generalizes. Grid car only.
+      </p>
+    </div>
+  </div>
+);
+
+export default LinearAgentPanel;
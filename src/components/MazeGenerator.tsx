@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Dices, Wand2 } from 'lucide-react';
+import { GENERATORS, type Generator } from '../engine/mazeGen';
+
+type MazeGeneratorProps = {
+  disabled: boolean;
+  onGenerate: (generator: Generator, seed: number, density: number) => number; // Returns walls repaired
+};
+
+// --- Generate Card: seeded procedural layouts ---
+const MazeGenerator = ({ disabled, onGenerate }: MazeGeneratorProps) => {
+  const [generator, setGenerator] = useState<Generator>('BACKTRACKER');
+  const [seed, setSeed] = useState(1);
+  const [density, setDensity] = useState(0.3);
+  const [lastRun, setLastRun] = useState<{ seed: number; repaired: number } | null>(null);
+
+  const generate = (nextSeed: number) => {
+    setSeed(nextSeed);
+    setLastRun({ seed: nextSeed, repaired: onGenerate(generator, nextSeed, density) });
+  };
+
+  const rollSeed = () => generate(Math.floor(Math.random() * 1_000_000));
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Wand2 size={18} className="text-purple-500"/> Generate
+      </h2>
+      <div className="space-y-3 text-sm text-slate-600">
+        <select
+          value={generator}
+          onChange={(e) => setGenerator(e.target.value as Generator)}
+          className="w-full px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+        >
+          {GENERATORS.map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+        </select>
+
+        {generator === 'RANDOM' && (
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span>Obstacle density</span>
+              <span className="font-mono text-slate-900">{density.toFixed(2)}</span>
+            </div>
+            <input
+              type="range" min="0" max="0.7" step="0.05"
+              value={density} onChange={(e) => setDensity(Number(e.target.value))}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <label htmlFor="mazeSeed">Seed</label>
+          <input
+            type="number" id="mazeSeed" min="0" step="1"
+            value={seed} onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value))))}
+            className="w-24 px-2 py-1 text-right font-mono text-slate-900 border border-slate-200 rounded"
+          />
+          <button
+            onClick={rollSeed}
+            disabled={disabled}
+            title="New random seed"
+            className="p-1.5 border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+          >
+            <Dices size={14}/>
+          </button>
+          <button
+            onClick={() => generate(seed)}
+            disabled={disabled}
+            className="ml-auto px-3 py-1 text-xs bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
+          >
+            Generate
+          </button>
+        </div>
+        {lastRun && (
+          <p className="text-xs text-slate-500">
+            Generated with seed <span className="font-mono text-slate-900">{lastRun.seed}</span>
+            {lastRun.repaired > 0 && <>; removed {lastRun.repaired} wall{lastRun.repaired > 1 ? 's' : ''} to make it solvable</>}.
+          </p>
+        )}
+        <p className="text-[10px] text-slate-400 leading-tight">
+          Same generator + seed + size = same maze. Unsolvable layouts are repaired by removing the fewest walls.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MazeGenerator;
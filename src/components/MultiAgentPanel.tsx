@@ -0,0 +1,189 @@
+import { Trophy, Users } from 'lucide-react';
+import type { Hyperparams } from '../engine/agent';
+import { ALGORITHMS, type Algorithm } from '../engine/algorithms';
+import { CONVERGENCE_WINDOW } from '../engine/history';
+import { MAX_CARS, MIN_CARS, type CarStats } from '../engine/squad';
+
+export type CarRow = {
+  id: number;
+  color: string;
+  params: Hyperparams;
+  stats: CarStats;
+};
+
+type MultiAgentPanelProps = {
+  enabled: boolean;
+  cars: CarRow[]; // Car 1 (the main agent) first
+  sharedTable: boolean;
+  viewedCar: number;
+  disabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onCountChange: (count: number) => void;
+  onSharedChange: (shared: boolean) => void;
+  onParamsChange: (id: number, params: Hyperparams) => void;
+  onViewCar: (id: number) => void;
+};
+
+const PARAM_INPUTS: { key: 'alpha' | 'gamma' | 'epsilon'; label: string; min: number; max: number }[] = [
+  { key: 'alpha', label: 'α', min: 0.01, max: 1 },
+  { key: 'gamma', label: 'γ', min: 0, max: 0.99 },
+  { key: 'epsilon', label: 'ε', min: 0, max: 1 },
+];
+
+const CarDot = ({ color }: { color: string }) => (
+  <span className="inline-block w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: color }} />
+);
+
+// Converged cars first (fewest episodes wins), then by how long their current streak is
+const byConvergence = (a: CarRow, b: CarRow) => {
+  const ca = a.stats.convergence;
+  const cb = b.stats.convergence;
+  if (ca.convergedAt !== null && cb.convergedAt !== null) return ca.convergedAt - cb.convergedAt;
+  if (ca.convergedAt !== null) return -1;
+  if (cb.convergedAt !== null) return 1;
+  return cb.streak - ca.streak;
+};
+
+// --- Multi-Agent Card: squad setup, per-car stats and the leaderboard ---
+const MultiAgentPanel = ({
+  enabled,
+  cars,
+  sharedTable,
+  viewedCar,
+  disabled,
+  onEnabledChange,
+  onCountChange,
+  onSharedChange,
+  onParamsChange,
+  onViewCar,
+}: MultiAgentPanelProps) => {
+  const setParam = (car: CarRow, key: keyof Hyperparams, value: number | Algorithm) => {
+    if (typeof value === 'number' && !Number.isFinite(value)) return;
+    onParamsChange(car.id, { ...car.params, [key]: value });
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Users size={18} className="text-rose-500"/> Multi-Agent
+        </h2>
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={disabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="w-4 h-4 text-rose-600 rounded border-gray-300"
+        />
+      </div>
+
+      {!enabled ? (
+        <p className="text-[10px] text-slate-400 leading-tight">
+          Run {MIN_CARS}–{MAX_CARS} cars at once, pooling experience in one Q-Table or racing different settings with their own.
+        </p>
+      ) : (
+        <div className="space-y-3 text-sm text-slate-600">
+          <div className="flex justify-between items-center gap-2">
+            <label className="flex items-center gap-2">
+              Cars
+              <input
+                type="number" min={MIN_CARS} max={MAX_CARS} step="1"
+                value={cars.length}
+                disabled={disabled}
+                onChange={(e) => onCountChange(Math.min(MAX_CARS, Math.max(MIN_CARS, Math.floor(Number(e.target.value)) || MIN_CARS)))}
+                className="w-14 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded"
+              />
+            </label>
+            <select
+              value={sharedTable ? 'shared' : 'own'}
+              disabled={disabled}
+              onChange={(e) => onSharedChange(e.target.value === 'shared')}
+              className="px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+            >
+              <option value="shared">Shared Q-Table</option>
+              <option value="own">Own Q-Tables</option>
+            </select>
+          </div>
+
+          {/* Per-car settings and stats */}
+          <div className="space-y-2">
+            {cars.map(car => (
+              <div key={car.id} className="p-2 bg-slate-50 rounded-lg space-y-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <CarDot color={car.color} />
+                  <span className="font-bold text-slate-800">Car {car.id}</span>
+                  {car.id === 1 && <span className="text-slate-400">main controls</span>}
+                  {!sharedTable && (
+                    <label className="ml-auto flex items-center gap-1 text-slate-500">
+                      <input
+                        type="radio" name="viewedCar"
+                        checked={viewedCar === car.id}
+                        onChange={() => onViewCar(car.id)}
+                        className="w-3 h-3"
+                      />
+                      show
+                    </label>
+                  )}
+                </div>
+                {car.id !== 1 && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {PARAM_INPUTS.map(({ key, label, min, max }) => (
+                      <label key={key} className="flex items-center gap-1">
+                        {label}
+                        <input
+                          type="number" min={min} max={max} step="0.01"
+                          value={Number(car.params[key].toFixed(3))}
+                          onChange={(e) => setParam(car, key, Math.min(max, Math.max(min, Number(e.target.value))))}
+                          className="w-14 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded"
+                        />
+                      </label>
+                    ))}
+                    {!sharedTable && (
+                      <select
+                        value={car.params.algorithm}
+                        onChange={(e) => setParam(car, 'algorithm', e.target.value as Algorithm)}
+                        className="px-1 py-0.5 text-xs text-slate-900 border border-slate-200 rounded bg-white"
+                      >
+                        {ALGORITHMS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                      </select>
+                    )}
+                  </div>
+                )}
+                <div className="flex justify-between text-[11px] font-mono text-slate-500">
+                  <span>ep {car.stats.episodes}</span>
+                  <span>goals {car.stats.goals}</span>
+                  <span>R {car.stats.lastReturn?.toFixed(0) ?? '—'}</span>
+                  <span>greedy {car.stats.convergence.pathLength ?? '—'}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Leaderboard */}
+          <div>
+            <div className="text-xs font-bold uppercase text-slate-500 mb-1 flex items-center gap-1">
+              <Trophy size={12}/> Episodes to convergence
+            </div>
+            <ol className="text-xs font-mono space-y-0.5">
+              {[...cars].sort(byConvergence).map((car, rank) => (
+                <li key={car.id} className="flex items-center gap-2">
+                  <span className="w-4 text-slate-400">{rank + 1}.</span>
+                  <CarDot color={car.color} />
+                  <span className="text-slate-700">Car {car.id}</span>
+                  <span className="ml-auto text-slate-900">
+                    {car.stats.convergence.convergedAt ?? `… ${car.stats.convergence.streak}/${CONVERGENCE_WINDOW}`}
+                  </span>
+                </li>
+              ))}
+            </ol>
+            <p className="mt-1 text-[10px] text-slate-400 leading-tight">
+              Converged = the greedy path from the start reached the goal with the same length for {CONVERGENCE_WINDOW} episodes in a row.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiAgentPanel;
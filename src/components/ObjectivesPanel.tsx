@@ -0,0 +1,115 @@
+import { Target, X } from 'lucide-react';
+import { MAX_CHECKPOINTS, MAX_EXTRA_GOALS, type Objectives } from '../engine/objectives';
+
+type ObjectivesPanelProps = {
+  objectives: Objectives;
+  collected: number;   // Checkpoints the car holds this episode
+  keepTables: boolean; // Dragging S or the flag keeps what was learned
+  disabled: boolean;
+  onChange: (objectives: Objectives) => void;
+  onKeepTablesChange: (keep: boolean) => void;
+};
+
+const numberInput = 'w-16 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded';
+
+// --- Objectives Card: extra goals, checkpoints and moving the start/goal ---
+const ObjectivesPanel = ({ objectives, collected, keepTables, disabled, onChange, onKeepTablesChange }: ObjectivesPanelProps) => {
+  const { goals, checkpoints } = objectives;
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Target size={18} className="text-emerald-500"/> Goals & Checkpoints
+      </h2>
+
+      <div className="space-y-3 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={keepTables}
+            onChange={(e) => onKeepTablesChange(e.target.checked)}
+            className="w-4 h-4 text-emerald-600 rounded border-gray-300"
+          />
+          Keep the Q-table when S or the flag moves
+        </label>
+
+        <div>
+          <div className="text-xs font-bold text-slate-500 uppercase mb-1">Extra goals ({goals.length}/{MAX_EXTRA_GOALS})</div>
+          {goals.length === 0 && <p className="text-xs text-slate-400">None. Place them with the flag tool in the palette.</p>}
+          {goals.map((goal, i) => (
+            <div key={`${goal.pos.x},${goal.pos.y}`} className="flex items-center gap-2 text-xs">
+              <span className="font-mono flex-1">({goal.pos.x}, {goal.pos.y})</span>
+              <span>reward</span>
+              <input
+                type="number" step="10"
+                value={goal.reward}
+                disabled={disabled}
+                onChange={(e) => onChange({
+                  ...objectives,
+                  goals: goals.map((g, j) => j === i ? { ...g, reward: Number(e.target.value) || 0 } : g),
+                })}
+                className={numberInput}
+              />
+              <button
+                onClick={() => onChange({ ...objectives, goals: goals.filter((_, j) => j !== i) })}
+                disabled={disabled}
+                title="Remove"
+                className="text-slate-400 hover:text-red-600 disabled:opacity-50"
+              >
+                <X size={14}/>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="text-xs font-bold text-slate-500 uppercase mb-1">
+            Checkpoints ({checkpoints.length}/{MAX_CHECKPOINTS})
+            {checkpoints.length > 0 && <span className="ml-2 font-mono normal-case text-emerald-600">{collected} collected</span>}
+          </div>
+          {checkpoints.length === 0 && <p className="text-xs text-slate-400">None. Place them in order with the checkpoint tool.</p>}
+          {checkpoints.map((c, i) => (
+            <div key={`${c.x},${c.y}`} className="flex items-center gap-2 text-xs">
+              <span className={`w-4 h-4 rounded-full text-[10px] font-bold flex items-center justify-center ${
+                i < collected ? 'bg-emerald-200 text-emerald-600' : 'bg-emerald-500 text-white'
+              }`}>
+                {i + 1}
+              </span>
+              <span className="font-mono flex-1">({c.x}, {c.y})</span>
+              <button
+                onClick={() => onChange({ ...objectives, checkpoints: checkpoints.filter((_, j) => j !== i) })}
+                disabled={disabled}
+                title="Remove"
+                className="text-slate-400 hover:text-red-600 disabled:opacity-50"
+              >
+                <X size={14}/>
+              </button>
+            </div>
+          ))}
+          {checkpoints.length > 0 && (
+            <label className="mt-1 flex items-center gap-2 text-xs">
+              <span className="flex-1">Reward per checkpoint</span>
+              <input
+                type="number" step="1"
+                value={objectives.checkpointReward}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...objectives, checkpointReward: Number(e.target.value) || 0 })}
+                className={numberInput}
+              />
+            </label>
+          )}
+        </div>
+
+        <p className="text-[10px] text-slate-400 leading-tight">
+          Drag S or the flag to move them; without the box ticked, learning starts over. Extra goals end the episode
+          with their own reward. Checkpoints must be collected in order before any goal counts, and the state records
+          which ones the car holds, with its own Q-values per count: the grid shows those of the car's progress.
+          Adding or removing a checkpoint starts learning over. The grid car and squad cars on its shared table
+          play by them; DP, experiments and cars with their own tables use the plain maze, and the oracle is off.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ObjectivesPanel;
@@ -0,0 +1,73 @@
+import { Target } from 'lucide-react';
+import type { OracleMethod, OracleMetrics } from '../engine/oracle';
+
+const METHOD_LABELS: Record<OracleMethod, string> = {
+  BFS: 'BFS shortest path (deterministic maze)',
+  VALUE_ITERATION: 'Value iteration (stochastic or weighted terrain)',
+};
+
+type OraclePanelProps = {
+  enabled: boolean;
+  method: OracleMethod | null;
+  metrics: OracleMetrics | null;
+  stateCount: number; // Reachable decision states
+  disabled: boolean;
+  unavailable: string | null; // Why the oracle cannot grade this run, if it cannot
+  onToggle: (enabled: boolean) => void;
+};
+
+const formatLength = (steps: number | null) => steps === null ? '—' : String(steps);
+
+// --- Oracle Card: how far the learned policy is from optimal ---
+const OraclePanel = ({ enabled, method, metrics, stateCount, disabled, unavailable, onToggle }: OraclePanelProps) => (
+  <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+    <div className="flex justify-between items-center mb-4">
+      <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <Target size={18} className="text-amber-500"/> Oracle
+      </h2>
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        Show optimal path
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={disabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="w-4 h-4 text-amber-600 rounded border-gray-300"
+        />
+      </label>
+    </div>
+
+    {enabled && metrics ? (
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="bg-slate-50 p-3 rounded-lg">
+            <div className="text-xs text-slate-500 uppercase font-bold">Greedy path</div>
+            <div className={`text-xl font-mono ${metrics.greedyLength === metrics.optimalLength ? 'text-green-600' : 'text-slate-900'}`}>
+              {formatLength(metrics.greedyLength)}
+              <span className="text-sm text-slate-400"> / {formatLength(metrics.optimalLength)}</span>
+            </div>
+          </div>
+          <div className="bg-slate-50 p-3 rounded-lg">
+            <div className="text-xs text-slate-500 uppercase font-bold">Suboptimal</div>
+            <div className={`text-xl font-mono ${metrics.suboptimalStates === 0 ? 'text-green-600' : 'text-slate-900'}`}>
+              {metrics.suboptimalStates}
+              <span className="text-sm text-slate-400"> / {stateCount}</span>
+            </div>
+          </div>
+          <div className="col-span-2 bg-slate-50 p-3 rounded-lg">
+            <div className="text-xs text-slate-500 uppercase font-bold">Max |Q − Q*|</div>
+            <div className="text-xl font-mono text-slate-900">{metrics.maxQError.toFixed(2)}</div>
+          </div>
+        </div>
+        {method && <p className="text-[10px] text-slate-400 leading-tight">Path: {METHOD_LABELS[method]}. Q* solved by value iteration under the current rewards and gamma.</p>}
+        {metrics.optimalLength === null && <p className="text-xs text-red-600">The goal is unreachable from the start.</p>}
+      </div>
+    ) : (
+      <p className="text-[10px] text-slate-400 leading-tight">
+        {unavailable ?? 'Solves the maze exactly from its known model and compares the learned greedy policy against it.'}
+      </p>
+    )}
+  </div>
+);
+
+export default OraclePanel;
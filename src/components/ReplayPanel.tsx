@@ -0,0 +1,104 @@
+import { ChevronLeft, ChevronRight, Download, History, X } from 'lucide-react';
+import { ACTIONS } from '../engine/gridWorld';
+import { MAX_RECORDINGS, type EpisodeRecording } from '../engine/recording';
+
+type ReplayPanelProps = {
+  recordings: EpisodeRecording[];
+  selected: number | null; // Episode number of the recording being replayed
+  frame: number;           // Steps replayed so far
+  onSelect: (episode: number | null) => void;
+  onFrameChange: (frame: number) => void;
+  onExport: () => void;
+};
+
+// --- Replay Card: scrub through recorded episodes on the grid ---
+const ReplayPanel = ({ recordings, selected, frame, onSelect, onFrameChange, onExport }: ReplayPanelProps) => {
+  const recording = recordings.find(r => r.episode === selected) ?? null;
+  const lastStep = recording && frame > 0 ? recording.steps[frame - 1] : null;
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <History size={18} className="text-violet-500"/> Replay
+        </h2>
+        <button
+          onClick={onExport}
+          disabled={recordings.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+        >
+          <Download size={12}/> JSON
+        </button>
+      </div>
+
+      {recordings.length === 0 ? (
+        <p className="text-sm text-slate-400">Finished episodes are recorded here.</p>
+      ) : (
+        <div className="space-y-3 text-sm text-slate-600">
+          <div className="flex items-center gap-2">
+            <select
+              value={recording?.episode ?? ''}
+              onChange={(e) => onSelect(e.target.value === '' ? null : Number(e.target.value))}
+              className="flex-1 px-2 py-1 text-sm text-slate-900 border border-slate-200 rounded bg-white"
+            >
+              <option value="">Pick an episode…</option>
+              {recordings.map(r => (
+                <option key={r.episode} value={r.episode}>
+                  Ep {r.episode} · {r.outcome.toLowerCase()} · {r.steps.length} steps
+                </option>
+              ))}
+            </select>
+            {recording && (
+              <button onClick={() => onSelect(null)} title="Back to the live agent" className="p-1 text-slate-400 hover:text-slate-700">
+                <X size={16}/>
+              </button>
+            )}
+          </div>
+
+          {recording && (
+            <>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onFrameChange(frame - 1)}
+                  disabled={frame === 0}
+                  className="p-1 border border-slate-200 rounded hover:bg-slate-50 disabled:opacity-50"
+                >
+                  <ChevronLeft size={14}/>
+                </button>
+                <input
+                  type="range" min="0" max={recording.steps.length} step="1"
+                  value={frame} onChange={(e) => onFrameChange(Number(e.target.value))}
+                  className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-violet-600"
+                />
+                <button
+                  onClick={() => onFrameChange(frame + 1)}
+                  disabled={frame === recording.steps.length}
+                  className="p-1 border border-slate-200 rounded hover:bg-slate-50 disabled:opacity-50"
+                >
+                  <ChevronRight size={14}/>
+                </button>
+              </div>
+              <div className="flex justify-between text-xs font-mono">
+                <span>step {frame}/{recording.steps.length}</span>
+                <span>
+                  {lastStep
+                    ? `${ACTIONS[lastStep.action].name} → (${lastStep.next.x}, ${lastStep.next.y}), R ${lastStep.reward}`
+                    : 'start'}
+                </span>
+              </div>
+              <p className="text-xs text-slate-500">
+                Return {recording.return.toFixed(1)}, ended by {recording.outcome.toLowerCase()}.
+              </p>
+            </>
+          )}
+
+          <p className="text-[10px] text-slate-400 leading-tight">
+            Keeps up to {MAX_RECORDINGS} episodes; past that, every other one is dropped so early and late training both stay available.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -0,0 +1,139 @@
+import { Scale } from 'lucide-react';
+import { DEFAULT_ENV, REWARD, type EnvConfig, type RewardKey } from '../engine/gridWorld';
+import type { RunEvent, RunSettingValue } from '../engine/history';
+
+const REWARD_LABELS: Record<RewardKey, string> = {
+  GOAL: 'Goal',
+  WALL: 'Wall bump',
+  STEP: 'Step',
+  MUD: 'Mud step',
+  PIT: 'Pit',
+};
+
+// Most recent change log entries shown in the card
+const LOG_PREVIEW = 5;
+
+type RewardsPanelProps = {
+  env: EnvConfig;
+  gamma: number;
+  autoMaxSteps: number; // Step limit used when env.maxSteps is null
+  runLog: RunEvent[];
+  disabled: boolean;
+  onEnvChange: (env: EnvConfig) => void;
+  onGammaChange: (gamma: number) => void;
+};
+
+const formatValue = (v: RunSettingValue) => v === null ? 'auto' : String(v);
+
+// --- Rewards & Termination Card ---
+const RewardsPanel = ({ env, gamma, autoMaxSteps, runLog, disabled, onEnvChange, onGammaChange }: RewardsPanelProps) => {
+  const setReward = (key: RewardKey, value: number) => {
+    if (Number.isFinite(value)) onEnvChange({ ...env, rewards: { ...env.rewards, [key]: value } });
+  };
+
+  const isDefault = (Object.keys(REWARD) as RewardKey[]).every(k => env.rewards[k] === REWARD[k])
+    && env.maxSteps === DEFAULT_ENV.maxSteps
+    && env.wallsTerminal === DEFAULT_ENV.wallsTerminal;
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Scale size={18} className="text-amber-500"/> Rewards
+        </h2>
+        <button
+          onClick={() => onEnvChange({ ...env, rewards: REWARD, maxSteps: DEFAULT_ENV.maxSteps, wallsTerminal: DEFAULT_ENV.wallsTerminal })}
+          disabled={disabled || isDefault}
+          className="px-2 py-1 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-600 disabled:opacity-50"
+        >
+          Defaults
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(REWARD_LABELS) as RewardKey[]).map(key => (
+            <label key={key} className="flex justify-between items-center text-sm text-slate-600 gap-2">
+              {REWARD_LABELS[key]}
+              <input
+                type="number" step="1"
+                value={env.rewards[key]}
+                disabled={disabled}
+                onChange={(e) => setReward(key, Number(e.target.value))}
+                className="w-16 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded disabled:text-slate-400"
+              />
+            </label>
+          ))}
+        </div>
+
+        <hr className="border-slate-100"/>
+
+        {/* Termination */}
+        <div className="space-y-2 text-sm text-slate-600">
+          <div className="flex justify-between items-center gap-2">
+            <label htmlFor="maxSteps">Max steps / episode</label>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  checked={env.maxSteps === null}
+                  disabled={disabled}
+                  onChange={(e) => onEnvChange({ ...env, maxSteps: e.target.checked ? null : autoMaxSteps })}
+                  className="w-3 h-3"
+                />
+                Auto
+              </label>
+              <input
+                type="number" id="maxSteps" min="1" step="1"
+                value={env.maxSteps ?? autoMaxSteps}
+                disabled={disabled || env.maxSteps === null}
+                onChange={(e) => onEnvChange({ ...env, maxSteps: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                className="w-20 px-1 py-0.5 text-right font-mono text-slate-900 border border-slate-200 rounded disabled:text-slate-400"
+              />
+            </div>
+          </div>
+          <label className="flex justify-between items-center">
+            Walls are terminal
+            <input
+              type="checkbox"
+              checked={env.wallsTerminal}
+              disabled={disabled}
+              onChange={(e) => onEnvChange({ ...env, wallsTerminal: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300"
+            />
+          </label>
+        </div>
+
+        <hr className="border-slate-100"/>
+
+        {/* Discount Factor */}
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-600">Discount (Gamma)</span>
+            <span className="font-mono text-slate-900">{gamma.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min="0" max="0.99" step="0.01"
+            value={gamma} disabled={disabled} onChange={(e) => onGammaChange(Number(e.target.value))}
+            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+          />
+          <p className="text-[10px] text-slate-400 leading-tight">
+            High = Plan for distant rewards. Low = Only care about the next few steps.
+          </p>
+        </div>
+
+        {runLog.length > 0 && (
+          <div className="text-[11px] font-mono text-slate-500 space-y-0.5">
+            <div className="text-xs font-sans font-bold uppercase text-slate-500">Changes this run</div>
+            {runLog.slice(-LOG_PREVIEW).map((e, i) => (
+              <div key={i}>ep {e.episode}: {e.setting} {formatValue(e.from)} → {formatValue(e.to)}</div>
+            ))}
+            {runLog.length > LOG_PREVIEW && <div>…and {runLog.length - LOG_PREVIEW} earlier (saved with the session)</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RewardsPanel;
@@ -0,0 +1,57 @@
+import { useRef } from 'react';
+import { Download, FolderOpen, Link, Save } from 'lucide-react';
+
+type SessionPanelProps = {
+  disabled: boolean;
+  status: { kind: 'ok' | 'error'; message: string } | null;
+  onExport: () => void;
+  onImport: (json: string) => void;
+  onShare: () => void;
+};
+
+// --- Session Card: export/import the whole run, share the maze ---
+const SessionPanel = ({ disabled, status, onExport, onImport, onShare }: SessionPanelProps) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    onImport(await file.text());
+    // Allow re-importing the same file
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1 px-2 py-1.5 text-xs border border-slate-200 rounded hover:bg-slate-50 text-slate-700 disabled:opacity-50';
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Save size={18} className="text-slate-500"/> Session
+      </h2>
+      <div className="flex gap-2">
+        <button onClick={onExport} disabled={disabled} className={buttonClass}>
+          <Download size={12}/> Export
+        </button>
+        <button onClick={() => fileRef.current?.click()} disabled={disabled} className={buttonClass}>
+          <FolderOpen size={12}/> Import
+        </button>
+        <button onClick={onShare} disabled={disabled} className={buttonClass}>
+          <Link size={12}/> Share Maze
+        </button>
+      </div>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      {status && (
+        <p className={`mt-3 text-xs leading-snug break-words ${status.kind === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SessionPanel;
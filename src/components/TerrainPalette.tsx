@@ -0,0 +1,163 @@
+import { BrickWall, ChevronUp, DoorClosed, DoorOpen, Eraser, Flag, MoveHorizontal, MoveVertical, Paintbrush, Search, Skull, Snowflake, Waves } from 'lucide-react';
+import {
+  ONE_WAY_DIRECTION,
+  TELEPORTS,
+  isOneWay,
+  isTeleport,
+  type CellType,
+  type EnvConfig,
+  type Grid,
+  type TeleportCell,
+} from '../engine/gridWorld';
+import type { PatrolAxis } from '../engine/dynamics';
+
+const TELEPORT_STYLE: Record<TeleportCell, { label: string; color: string }> = {
+  TELEPORT_A: { label: 'A', color: 'bg-violet-500' },
+  TELEPORT_B: { label: 'B', color: 'bg-fuchsia-500' },
+  TELEPORT_C: { label: 'C', color: 'bg-cyan-500' },
+};
+
+// --- Terrain overlay drawn inside a grid cell (and on the palette buttons) ---
+export const TerrainMark = ({ type, size }: { type: CellType; size: number }) => {
+  const overlay = 'absolute inset-0 flex items-center justify-center pointer-events-none';
+  if (type === 'MUD') return <div className={`${overlay} bg-amber-700/40 text-amber-900`}><Waves size={size} /></div>;
+  if (type === 'ICE') return <div className={`${overlay} bg-sky-300/50 text-sky-700`}><Snowflake size={size} /></div>;
+  if (type === 'PIT') return <div className={`${overlay} text-red-300`}><Skull size={size} /></div>;
+  if (isOneWay(type)) {
+    return (
+      <div className={`${overlay} bg-slate-300/40 text-slate-600`} style={{ transform: `rotate(${ONE_WAY_DIRECTION[type] * 90}deg)` }}>
+        <ChevronUp size={size} strokeWidth={3} />
+      </div>
+    );
+  }
+  if (isTeleport(type)) {
+    const { label, color } = TELEPORT_STYLE[type];
+    return (
+      <div className={overlay}>
+        <div className={`${color} text-white rounded-full w-4/5 h-4/5 flex items-center justify-center font-bold`} style={{ fontSize: size * 0.7 }}>
+          {label}
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+// --- Door / patrol overlay (the cell underneath is WALL when closed or occupied) ---
+export const DynamicMark = ({ kind, open, size }: { kind: 'DOOR' | PatrolAxis; open?: boolean; size: number }) => {
+  const overlay = 'absolute inset-0 flex items-center justify-center pointer-events-none';
+  if (kind === 'DOOR') {
+    return <div className={`${overlay} text-orange-500`}>{open ? <DoorOpen size={size} /> : <DoorClosed size={size} />}</div>;
+  }
+  return (
+    <div className={`${overlay} text-amber-400`}>
+      {kind === 'HORIZONTAL' ? <MoveHorizontal size={size} /> : <MoveVertical size={size} />}
+    </div>
+  );
+};
+
+// --- Extra goal / checkpoint overlay (drawn over an ordinary cell) ---
+// Checkpoints show their place in the order and fade once collected this episode
+export const ObjectiveMark = ({ kind, label, collected, size }: { kind: 'GOAL' | 'CHECKPOINT'; label?: string; collected?: boolean; size: number }) => {
+  const overlay = 'absolute inset-0 flex items-center justify-center pointer-events-none';
+  if (kind === 'GOAL') {
+    return (
+      <div className={`${overlay} text-amber-500`}>
+        <Flag size={size} fill="currentColor" />
+      </div>
+    );
+  }
+  return (
+    <div className={overlay}>
+      <div
+        className={`${collected ? 'bg-emerald-200 text-emerald-600' : 'bg-emerald-500 text-white'} rounded-full w-4/5 h-4/5 flex items-center justify-center font-bold`}
+        style={{ fontSize: size * 0.7 }}
+      >
+        {label}
+      </div>
+    </div>
+  );
+};
+
+// Painting tools, scripted dynamics, objectives and the cell inspector
+export type PaletteTool = CellType | 'INSPECT' | 'DOOR' | 'PATROL_HORIZONTAL' | 'PATROL_VERTICAL' | 'EXTRA_GOAL' | 'CHECKPOINT';
+
+const TOOLS: { type: PaletteTool; label: string }[] = [
+  { type: 'WALL', label: 'Wall' },
+  { type: 'MUD', label: 'Mud: extra step cost' },
+  { type: 'ICE', label: 'Ice: actions may slip sideways' },
+  { type: 'PIT', label: 'Pit: large penalty, ends the episode' },
+  { type: 'ONE_WAY_UP', label: 'One-way: enter moving up only' },
+  { type: 'ONE_WAY_RIGHT', label: 'One-way: enter moving right only' },
+  { type: 'ONE_WAY_DOWN', label: 'One-way: enter moving down only' },
+  { type: 'ONE_WAY_LEFT', label: 'One-way: enter moving left only' },
+  ...TELEPORTS.map(type => ({ type, label: `Teleporter pair ${TELEPORT_STYLE[type].label}` })),
+  { type: 'EMPTY', label: 'Eraser' },
+  { type: 'DOOR', label: 'Door: opens and closes every few episodes' },
+  { type: 'PATROL_HORIZONTAL', label: 'Patrolling wall: sweeps its row back and forth' },
+  { type: 'PATROL_VERTICAL', label: 'Patrolling wall: sweeps its column back and forth' },
+  { type: 'EXTRA_GOAL', label: 'Extra goal: ends the episode with its own reward' },
+  { type: 'CHECKPOINT', label: 'Checkpoint: collected in order before any goal counts' },
+  { type: 'INSPECT', label: 'Inspect: click a cell to see its Q-values and last update' },
+];
+
+type TerrainPaletteProps = {
+  grid: Grid;
+  tool: PaletteTool;
+  env: EnvConfig;
+  onToolChange: (tool: PaletteTool) => void;
+  onEnvChange: (env: EnvConfig) => void;
+};
+
+const isTeleportTool = (tool: PaletteTool): tool is CellType => TELEPORTS.some(t => t === tool);
+
+// --- Terrain Palette: what a click on the grid paints ---
+const TerrainPalette = ({ grid, tool, env, onToolChange, onEnvChange }: TerrainPaletteProps) => {
+  const countOf = (type: CellType) => grid.reduce((n, row) => n + row.filter(c => c === type).length, 0);
+
+  return (
+    <div className="mt-4 w-full max-w-[600px] bg-white p-3 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase mb-2">
+        <Paintbrush size={14}/> Terrain
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {TOOLS.map(({ type, label }) => (
+          <button
+            key={type}
+            title={label}
+            onClick={() => onToolChange(type)}
+            className={`relative w-8 h-8 rounded border overflow-hidden ${
+              tool === type ? 'border-blue-500 ring-2 ring-blue-300' : 'border-slate-200 hover:border-slate-400'
+            } ${type === 'WALL' ? 'bg-gray-900 text-gray-400' : type === 'PIT' ? 'bg-red-950' : 'bg-white'}`}
+          >
+            {type === 'WALL' && <BrickWall size={16} className="m-auto" />}
+            {type === 'EMPTY' && <Eraser size={16} className="m-auto text-slate-500" />}
+            {type === 'INSPECT' ? <Search size={16} className="m-auto text-indigo-600" />
+              : type === 'DOOR' ? <DynamicMark kind="DOOR" size={16} />
+              : type === 'PATROL_HORIZONTAL' ? <DynamicMark kind="HORIZONTAL" size={16} />
+              : type === 'PATROL_VERTICAL' ? <DynamicMark kind="VERTICAL" size={16} />
+              : type === 'EXTRA_GOAL' ? <ObjectiveMark kind="GOAL" size={16} />
+              : type === 'CHECKPOINT' ? <ObjectiveMark kind="CHECKPOINT" label="1" size={16} />
+              : <TerrainMark type={type} size={16} />}
+          </button>
+        ))}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 items-center text-xs text-slate-500">
+        <span>{TOOLS.find(t => t.type === tool)?.label}</span>
+        {isTeleportTool(tool) && <span className="font-mono">{countOf(tool)}/2 placed</span>}
+        <label className="flex items-center gap-2 ml-auto">
+          Ice slip
+          <input
+            type="range" min="0" max="1" step="0.05"
+            value={env.slipProbability}
+            onChange={(e) => onEnvChange({ ...env, slipProbability: Number(e.target.value) })}
+            className="w-24 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-sky-600"
+          />
+          <span className="font-mono text-slate-900 w-8">{env.slipProbability.toFixed(2)}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default TerrainPalette;
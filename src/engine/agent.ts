@@ -0,0 +1,93 @@
+import { ACTIONS, type Pos } from './gridWorld';
+import { randomInt, type Rng } from './rng';
+import type { Algorithm } from './algorithms';
+import type { Exploration } from './exploration';
+
+// --- Agent: the Q-Table and the policies derived from it ---
+export type QTable = number[][][]; // [y][x][actionIndex]
+export type VisitCounts = number[][][]; // Times each action was taken, same shape
+
+export type Hyperparams = {
+  alpha: number;   // Learning rate
+  gamma: number;   // Discount factor
+  epsilon: number; // Exploration knob: rate, temperature or UCB c depending on the strategy
+  algorithm: Algorithm;
+  exploration: Exploration;
+};
+
+// --- Helper: Initialize Q-Table ---
+// Modified to support Heuristic (Greedy) Initialization, and optimistic
+// initial values that make every untried action look worth a visit
+export const initQTable = (
+  width: number,
+  height: number,
+  useHeuristic: boolean,
+  goal: Pos,
+  optimistic: number | null = null,
+): QTable => {
+  const table = [];
+  for (let y = 0; y < height; y++) {
+    const row = [];
+    for (let x = 0; x < width; x++) {
+      const actions = [];
+      for (let a = 0; a < 4; a++) {
+        if (!useHeuristic) {
+           // Standard RL: Start with 0 (Tabula Rasa), or optimistically high
+           actions.push(optimistic ?? 0); 
+        } else {
+           // Heuristic: Initialize with negative distance to goal
+           // This acts as a "gradient" pulling the agent to the goal
+           const dx = ACTIONS[a].dx;
+           const dy = ACTIONS[a].dy;
+           const nx = x + dx;
+           const ny = y + dy;
+           
+           // Simple Euclidean distance
+           const dist = Math.sqrt(Math.pow(nx - goal.x, 2) + Math.pow(ny - goal.y, 2));
+           
+           // We use negative distance because Q-Learning maximizes value.
+           // Being closer (smaller distance) means a "less negative" (higher) value.
+           // We multiply by 1.5 to make the gradient steep enough to overcome step costs.
+           actions.push(-dist * 2);
+        }
+      }
+      row.push(actions);
+    }
+    table.push(row);
+  }
+  return table;
+};
+
+export const createVisitCounts = (width: number, height: number, actions = ACTIONS.length): VisitCounts =>
+  Array(height).fill(null).map(() => Array(width).fill(null).map(() => Array(actions).fill(0)));
+
+export const cloneQTable = (table: QTable): QTable => table.map(row => row.map(qs => [...qs]));
+
+// Copy learned values into a freshly initialized table wherever the two overlap
+export const copyOverlap = (from: QTable, into: QTable): QTable =>
+  into.map((row, y) => row.map((qs, x) => from[y]?.[x] ? [...from[y][x]] : qs));
+
+// --- Helper: Get max Q value for a cell ---
+export const getMaxQ = (qValues: number[]) => Math.max(...qValues);
+
+// --- Helper: Get best action index ---
+export const getBestAction = (qValues: number[], rng: Rng = Math.random) => {
+  let maxVal = -Infinity;
+  let maxIndices: number[] = [];
+  
+  qValues.forEach((val, idx) => {
+    if (val > maxVal) {
+      maxVal = val;
+      maxIndices = [idx];
+    } else if (val === maxVal) {
+      maxIndices.push(idx);
+    }
+  });
+  
+  // Random tie-breaking
+  return maxIndices[randomInt(rng, maxIndices.length)];
+};
+
+// Deterministic variant: the lowest-index maximum
+export const getFirstBestAction = (qValues: number[]) =>
+  qValues.reduce((best, v, i) => v > qValues[best] ? i : best, 0);
@@ -0,0 +1,105 @@
+import type { Pos } from './gridWorld';
+import { cloneQTable, getBestAction, getMaxQ, type Hyperparams, type QTable } from './agent';
+import { actionProbabilities, chooseAction, type Exploration } from './exploration';
+import type { Rng } from './rng';
+
+// --- TD Control Algorithms ---
+export type Algorithm = 'Q_LEARNING' | 'SARSA' | 'EXPECTED_SARSA' | 'DOUBLE_Q';
+
+export const ALGORITHMS: { id: Algorithm; label: string; target: string }[] = [
+  { id: 'Q_LEARNING', label: 'Q-Learning', target: "R + γ max Q(s',a')" },
+  { id: 'SARSA', label: 'SARSA', target: "R + γ Q(s',a'), a' taken next" },
+  { id: 'EXPECTED_SARSA', label: 'Expected SARSA', target: "R + γ Σ π(a'|s') Q(s',a')" },
+  { id: 'DOUBLE_Q', label: 'Double Q-Learning', target: "R + γ Q_B(s', argmax Q_A(s',a'))" },
+];
+
+// The learner's tables. qTableB only exists for Double Q-learning.
+export type QTables = { qTable: QTable; qTableB: QTable | null };
+
+export type TdUpdate = {
+  nextAction: number | null; // Action already committed to in s' (SARSA only)
+  nextValue: number;         // Bootstrapped value of s' (0 when terminal)
+  tdError: number;
+  oldValue: number;
+  newValue: number;
+  table: 'A' | 'B';          // Which estimate was written (always A outside Double Q)
+};
+
+// Q-values the agent acts on: Double Q-learning uses the average of both tables
+export const getQValues = ({ qTable, qTableB }: QTables, pos: Pos) => {
+  const qs = qTable[pos.y][pos.x];
+  if (!qTableB) return qs;
+  const qsB = qTableB[pos.y][pos.x];
+  return qs.map((v, i) => (v + qsB[i]) / 2);
+};
+
+// Collapse Double Q-learning's two estimates back into a single table
+export const averageQTables = (tables: QTables): QTable =>
+  tables.qTable.map((row, y) => row.map((_, x) => getQValues(tables, { x, y })));
+
+// --- Algorithm switch ---
+// Double Q starts both estimates from the current knowledge; leaving it keeps their average.
+export const withAlgorithm = (tables: QTables, algorithm: Algorithm): QTables => {
+  if (algorithm === 'DOUBLE_Q' && !tables.qTableB) return { qTable: tables.qTable, qTableB: cloneQTable(tables.qTable) };
+  if (algorithm !== 'DOUBLE_Q' && tables.qTableB) return { qTable: averageQTables(tables), qTableB: null };
+  return tables;
+};
+
+// --- Helper: Expected Q under the current behaviour policy ---
+export const getExpectedQ = (qValues: number[], epsilon: number, exploration: Exploration, visits: number[] | null = null) =>
+  actionProbabilities(qValues, epsilon, exploration, visits).reduce((sum, p, a) => sum + p * qValues[a], 0);
+
+// Where s' lives when it isn't in the updated tables (a kinematic slice), and
+// its visit counts for UCB
+export type NextState = { tables?: QTables; visits?: number[] };
+
+// --- Bellman update for the selected algorithm ---
+// Mutates the tables in place. Terminal transitions (done) never bootstrap.
+export const tdUpdate = (
+  tables: QTables,
+  params: Hyperparams,
+  s: Pos,
+  action: number,
+  reward: number,
+  next: Pos,
+  done: boolean,
+  rng: Rng,
+  { tables: nextTables = tables, visits: nextVisits }: NextState = {},
+): TdUpdate => {
+  const { alpha, gamma, epsilon, algorithm, exploration } = params;
+  const nextB = nextTables.qTableB;
+
+  if (algorithm === 'DOUBLE_Q' && tables.qTableB && nextB) {
+    // Flip a coin: one table picks the action, the other evaluates it
+    const table = rng() < 0.5 ? 'A' : 'B';
+    const learn = table === 'A' ? tables.qTable : tables.qTableB;
+    const [pick, judge] = table === 'A' ? [nextTables.qTable, nextB] : [nextB, nextTables.qTable];
+    const nextValue = done ? 0 : judge[next.y][next.x][getBestAction(pick[next.y][next.x], rng)];
+    const oldVal = learn[s.y][s.x][action];
+    const tdError = reward + gamma * nextValue - oldVal;
+    learn[s.y][s.x][action] = oldVal + alpha * tdError;
+    return { nextAction: null, nextValue, tdError, oldValue: oldVal, newValue: learn[s.y][s.x][action], table };
+  }
+
+  const nextQ = nextTables.qTable[next.y][next.x];
+  let nextAction: number | null = null;
+  let nextValue = 0;
+
+  if (!done) {
+    if (algorithm === 'SARSA') {
+      // On-policy: commit to a' now and evaluate exactly that action
+      nextAction = chooseAction(nextQ, epsilon, exploration, rng, nextVisits);
+      nextValue = nextQ[nextAction];
+    } else if (algorithm === 'EXPECTED_SARSA') {
+      nextValue = getExpectedQ(nextQ, epsilon, exploration, nextVisits);
+    } else {
+      // Off-policy: evaluate the greedy action
+      nextValue = getMaxQ(nextQ);
+    }
+  }
+
+  const oldVal = tables.qTable[s.y][s.x][action];
+  const tdError = reward + gamma * nextValue - oldVal;
+  tables.qTable[s.y][s.x][action] = oldVal + alpha * tdError;
+  return { nextAction, nextValue, tdError, oldValue: oldVal, newValue: tables.qTable[s.y][s.x][action], table: 'A' };
+};
@@ -0,0 +1,85 @@
+import type { Pos } from './gridWorld';
+import type { Hyperparams } from './agent';
+import { tdUpdate, type QTables } from './algorithms';
+import { randomInt, type Rng } from './rng';
+
+// --- Dyna-Q: planning from a learned model ---
+// The model remembers the latest outcome of every (s, a) the car has tried.
+// After each real step, `steps` remembered transitions are replayed through
+// the same update rule, except that SARSA bootstraps on its expected target
+// (Expected SARSA) so planning draws no a' from the live random stream. Dyna-Q+ adds κ√τ to a replayed reward, τ being the
+// real steps since that (s, a) was last tried, so stale corners of a changed
+// maze get re-checked.
+export type Planning = {
+  steps: number;        // Simulated updates per real step, 0 = model-free
+  kappa: number | null; // Dyna-Q+ bonus weight, null = plain Dyna-Q
+};
+
+export const DEFAULT_PLANNING: Planning = { steps: 0, kappa: null };
+export const MAX_PLANNING_STEPS = 50;
+
+export type ModelTransition = {
+  s: Pos;
+  action: number;
+  reward: number;
+  next: Pos;
+  done: boolean;
+  time: number; // Real step on which it was last observed
+};
+
+export type DynaModel = {
+  transitions: ModelTransition[];
+  index: Map<string, number>; // "x,y,a" -> position in transitions
+  time: number;               // Real steps observed so far
+};
+
+// What the step function needs to plan
+export type Dyna = {
+  model: DynaModel;
+  planning: Planning;
+};
+
+export const createModel = (): DynaModel => ({ transitions: [], index: new Map(), time: 0 });
+
+// Remember (or overwrite) the outcome of a real step. Mutates the model.
+export const observe = (model: DynaModel, s: Pos, action: number, reward: number, next: Pos, done: boolean) => {
+  model.time++;
+  const key = `${s.x},${s.y},${action}`;
+  const transition = { s, action, reward, next, done, time: model.time };
+  const i = model.index.get(key);
+  if (i === undefined) {
+    model.index.set(key, model.transitions.length);
+    model.transitions.push(transition);
+  } else {
+    model.transitions[i] = transition;
+  }
+};
+
+// Run the planning updates; returns the cells whose Q-values they changed.
+// Mutates the tables. Draws nothing from rng when there is nothing to plan.
+export const plan = (tables: QTables, params: Hyperparams, { model, planning }: Dyna, rng: Rng): Pos[] => {
+  const { transitions } = model;
+  if (planning.steps === 0 || transitions.length === 0) return [];
+
+  // A sampled SARSA a' would also shift every later draw of the real run
+  const replay: Hyperparams = params.algorithm === 'SARSA' ? { ...params, algorithm: 'EXPECTED_SARSA' } : params;
+  const cells: Pos[] = [];
+  for (let i = 0; i < planning.steps; i++) {
+    const { s, action, reward, next, done, time } = transitions[randomInt(rng, transitions.length)];
+    const bonus = planning.kappa === null ? 0 : planning.kappa * Math.sqrt(model.time - time);
+    tdUpdate(tables, replay, s, action, reward + bonus, next, done, rng);
+    cells.push(s);
+  }
+  return cells;
+};
+
+// Forget transitions that start or end outside a resized grid
+export const cropModel = (model: DynaModel, width: number, height: number): DynaModel => {
+  const inside = ({ x, y }: Pos) => x < width && y < height;
+  const transitions = model.transitions.filter(t => inside(t.s) && inside(t.next));
+  return {
+    transitions,
+    index: new Map(transitions.map((t, i) => [`${t.s.x},${t.s.y},${t.action}`, i])),
+    time: model.time,
+  };
+};
@@ -0,0 +1,189 @@
+import { ACTIONS, getOutcomes, isTerminal, type EnvConfig, type Grid, type Pos } from './gridWorld';
+import { getFirstBestAction, getMaxQ, type QTable } from './agent';
+
+// --- Dynamic Programming on the known transition model ---
+// States are the non-wall, non-terminal cells. Terminal cells keep Q = 0.
+export type DpMethod = 'VALUE_ITERATION' | 'POLICY_ITERATION';
+
+export const DP_METHODS: { id: DpMethod; label: string }[] = [
+  { id: 'VALUE_ITERATION', label: 'Value Iteration' },
+  { id: 'POLICY_ITERATION', label: 'Policy Iteration' },
+];
+
+export type Policy = number[][]; // Action index per cell, [y][x]
+
+export type DpSweepResult = {
+  residual: number;              // Bellman residual of this sweep
+  policyChanges: number | null;  // States whose action changed (policy improvement steps only)
+  converged: boolean;
+};
+
+// Running totals for the UI
+export type DpProgress = DpSweepResult & { sweeps: number };
+
+export const NO_DP_PROGRESS: DpProgress = { sweeps: 0, residual: Infinity, policyChanges: null, converged: false };
+
+export const isDecisionState = (grid: Grid, pos: Pos) => {
+  const type = grid[pos.y][pos.x];
+  return type !== 'WALL' && !isTerminal(type);
+};
+
+// Expected one-step return of an action, bootstrapping from `valueOf(s')`
+export const bellmanBackup = (
+  grid: Grid,
+  env: EnvConfig,
+  gamma: number,
+  pos: Pos,
+  action: number,
+  valueOf: (next: Pos) => number,
+) => getOutcomes(grid, pos, action, env).reduce((sum, { prob, transition }) => {
+  const future = transition.done ? 0 : valueOf(transition.next);
+  return sum + prob * (transition.reward + gamma * future);
+}, 0);
+
+// All decision states, in raster order
+export const decisionStates = (grid: Grid) => {
+  const states: Pos[] = [];
+  grid.forEach((row, y) => row.forEach((_, x) => {
+    if (isDecisionState(grid, { x, y })) states.push({ x, y });
+  }));
+  return states;
+};
+
+// Decision states that can reach a terminal cell, ordered by reverse BFS from
+// the terminals so an in-place sweep sees each successor before its predecessors
+const goalwardOrder = (grid: Grid, env: EnvConfig) => {
+  const width = grid[0].length;
+  const predecessors = new Map<number, Pos[]>();
+  const endsHere: Pos[] = []; // Terminal wall bumps
+  for (const pos of decisionStates(grid)) {
+    for (let a = 0; a < ACTIONS.length; a++) {
+      for (const { transition: { next, done } } of getOutcomes(grid, pos, a, env)) {
+        if (done && !isTerminal(grid[next.y][next.x]) && endsHere.at(-1) !== pos) endsHere.push(pos);
+        const id = next.y * width + next.x;
+        if (!predecessors.has(id)) predecessors.set(id, []);
+        predecessors.get(id)!.push(pos);
+      }
+    }
+  }
+
+  const seen = new Set<number>();
+  const queue: Pos[] = [];
+  grid.forEach((row, y) => row.forEach((type, x) => {
+    if (isTerminal(type)) { seen.add(y * width + x); queue.push({ x, y }); }
+  }));
+  endsHere.forEach(p => { seen.add(p.y * width + p.x); queue.push(p); });
+  const order: Pos[] = [...endsHere];
+  for (let head = 0; head < queue.length; head++) {
+    for (const prev of predecessors.get(queue[head].y * width + queue[head].x) ?? []) {
+      const id = prev.y * width + prev.x;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      queue.push(prev);
+      order.push(prev);
+    }
+  }
+  return order;
+};
+
+// One in-place (Gauss-Seidel) value iteration sweep over Q, raster order by default.
+// Returns the Bellman residual: the largest change made to any Q-value.
+export const valueIterationSweep = (
+  grid: Grid,
+  env: EnvConfig,
+  gamma: number,
+  q: QTable,
+  states: Pos[] = decisionStates(grid),
+) => {
+  let residual = 0;
+  const maxQ = (p: Pos) => getMaxQ(q[p.y][p.x]);
+  for (const pos of states) {
+    const qs = q[pos.y][pos.x];
+    for (let a = 0; a < ACTIONS.length; a++) {
+      const updated = bellmanBackup(grid, env, gamma, pos, a, maxQ);
+      residual = Math.max(residual, Math.abs(updated - qs[a]));
+      qs[a] = updated;
+    }
+  }
+  return residual;
+};
+
+// One in-place evaluation sweep of a fixed policy: Q(s,a) = E[r + gamma * Q(s', pi(s'))]
+export const policyEvaluationSweep = (
+  grid: Grid,
+  env: EnvConfig,
+  gamma: number,
+  q: QTable,
+  policy: Policy,
+  states: Pos[] = decisionStates(grid),
+) => {
+  let residual = 0;
+  const policyQ = (p: Pos) => q[p.y][p.x][policy[p.y][p.x]];
+  for (const pos of states) {
+    const qs = q[pos.y][pos.x];
+    for (let a = 0; a < ACTIONS.length; a++) {
+      const updated = bellmanBackup(grid, env, gamma, pos, a, policyQ);
+      residual = Math.max(residual, Math.abs(updated - qs[a]));
+      qs[a] = updated;
+    }
+  }
+  return residual;
+};
+
+export const greedyPolicy = (q: QTable): Policy => q.map(row => row.map(getFirstBestAction));
+
+// Make the policy greedy in Q. The current action is kept on ties so a stable
+// policy is recognized. Returns how many states changed.
+export const improvePolicy = (grid: Grid, q: QTable, policy: Policy) => {
+  let changes = 0;
+  for (const { x, y } of decisionStates(grid)) {
+    const qs = q[y][x];
+    if (qs[policy[y][x]] >= getMaxQ(qs)) continue;
+    policy[y][x] = getFirstBestAction(qs);
+    changes++;
+  }
+  return changes;
+};
+
+// One step of the chosen method. Policy iteration evaluates until the residual
+// drops below the threshold, then improves; it has converged when improving
+// changes nothing.
+export const dpSweep = (
+  method: DpMethod,
+  grid: Grid,
+  env: EnvConfig,
+  gamma: number,
+  q: QTable,
+  policy: Policy,
+  threshold: number,
+): DpSweepResult => {
+  if (method === 'VALUE_ITERATION') {
+    const residual = valueIterationSweep(grid, env, gamma, q);
+    return { residual, policyChanges: null, converged: residual < threshold };
+  }
+  const residual = policyEvaluationSweep(grid, env, gamma, q, policy);
+  if (residual >= threshold) return { residual, policyChanges: null, converged: false };
+  const policyChanges = improvePolicy(grid, q, policy);
+  return { residual, policyChanges, converged: policyChanges === 0 };
+};
+
+export const zeroQTable = (grid: Grid): QTable => grid.map(row => row.map(() => ACTIONS.map(() => 0)));
+
+// Exact Q* for every state that can end an episode; states that never can
+// (walled-off pockets) stay at 0. Sweeps start from a pessimistic bound in
+// goalward order, which settles most mazes in a handful of sweeps.
+export const solveQStar = (grid: Grid, env: EnvConfig, gamma: number, tolerance = 1e-4, maxSweeps = 5000) => {
+  const q = zeroQTable(grid);
+  const order = goalwardOrder(grid, env);
+  if (gamma < 1) {
+    const floor = Math.min(0, ...Object.values(env.rewards)) / (1 - gamma);
+    order.forEach(({ x, y }) => q[y][x].fill(floor));
+  }
+  let sweeps = 0;
+  let residual = Infinity;
+  while (residual > tolerance && sweeps < maxSweeps) {
+    residual = valueIterationSweep(grid, env, gamma, q, order);
+    sweeps++;
+  }
+  return { q, sweeps, residual, solvable: order };
+};
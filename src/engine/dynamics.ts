@@ -0,0 +1,171 @@
+import { gridHeight, gridWidth, type Grid, type Pos } from './gridWorld';
+import { findPath } from './pathfinding';
+import { randomInt, type Rng } from './rng';
+
+// --- Non-stationary environments ---
+// Scripted changes applied to the grid while the agent learns. The grid always
+// holds the current physical state (a closed door or a patrolling wall is a
+// WALL cell), so the rest of the engine never needs to know about dynamics.
+export type PatrolAxis = 'HORIZONTAL' | 'VERTICAL';
+
+export type Patrol = {
+  axis: PatrolAxis;
+  route: Pos[];     // The corridor it sweeps, end to end
+  index: number;    // Current cell on the route
+  direction: 1 | -1;
+};
+
+export type Dynamics = {
+  patrols: Patrol[];
+  doors: Pos[];
+  patrolPeriod: number;        // Steps between patrol moves
+  doorInterval: number;        // Episodes between door toggles, 0 = never
+  goalInterval: number;        // Episodes between goal jumps, 0 = never
+  boostEpsilon: number | null; // Raise epsilon to at least this when doors or the goal change
+};
+
+export const NO_DYNAMICS: Dynamics = {
+  patrols: [],
+  doors: [],
+  patrolPeriod: 4,
+  doorInterval: 20,
+  goalInterval: 0,
+  boostEpsilon: null,
+};
+
+export type DynamicWorld = {
+  grid: Grid;
+  goal: Pos;
+  dynamics: Dynamics;
+};
+
+const sameCell = (a: Pos, b: Pos) => a.x === b.x && a.y === b.y;
+const isOccupied = (occupied: Pos[], p: Pos) => occupied.some(o => sameCell(o, p));
+
+export const isDoor = (dynamics: Dynamics, p: Pos) => dynamics.doors.some(d => sameCell(d, p));
+
+export const patrolAt = (dynamics: Dynamics, p: Pos) =>
+  dynamics.patrols.find(patrol => sameCell(patrol.route[patrol.index], p));
+
+// --- Editing ---
+// A patrol sweeps the run of EMPTY cells through `pos` along the axis
+export const createPatrol = (grid: Grid, pos: Pos, axis: PatrolAxis): Patrol | null => {
+  const [dx, dy] = axis === 'HORIZONTAL' ? [1, 0] : [0, 1];
+  const open = (p: Pos) => p.x >= 0 && p.y >= 0 && p.x < gridWidth(grid) && p.y < gridHeight(grid) && grid[p.y][p.x] === 'EMPTY';
+  if (!open(pos)) return null;
+
+  let first = pos;
+  while (open({ x: first.x - dx, y: first.y - dy })) first = { x: first.x - dx, y: first.y - dy };
+  const route: Pos[] = [];
+  for (let p = first; open(p); p = { x: p.x + dx, y: p.y + dy }) route.push(p);
+  if (route.length < 2) return null;
+
+  return { axis, route, index: route.findIndex(p => sameCell(p, pos)), direction: 1 };
+};
+
+// Forget the door or patrol on a cell; the cell itself is left as it is
+export const withoutDynamicsAt = (dynamics: Dynamics, p: Pos): Dynamics => ({
+  ...dynamics,
+  doors: dynamics.doors.filter(d => !sameCell(d, p)),
+  patrols: dynamics.patrols.filter(patrol => !sameCell(patrol.route[patrol.index], p)),
+});
+
+// Remove every door and patrol, opening the cells they occupied
+export const clearDynamics = (grid: Grid, dynamics: Dynamics) => {
+  const next = grid.map(row => [...row]);
+  dynamics.doors.forEach(({ x, y }) => { if (next[y][x] === 'WALL') next[y][x] = 'EMPTY'; });
+  dynamics.patrols.forEach(({ route, index }) => { next[route[index].y][route[index].x] = 'EMPTY'; });
+  return { grid: next, dynamics: { ...dynamics, doors: [], patrols: [] } };
+};
+
+// --- Scheduled changes ---
+// Every patrolPeriod steps each patrol moves one cell, bouncing at the ends of
+// its route and whenever the next cell is taken (a car, a wall drawn later...).
+export const advanceStep = (world: DynamicWorld, steps: number, occupied: Pos[]): DynamicWorld => {
+  const { dynamics } = world;
+  if (dynamics.patrols.length === 0 || steps % dynamics.patrolPeriod !== 0) return world;
+
+  const grid = world.grid.map(row => [...row]);
+  const patrols = dynamics.patrols.map((patrol): Patrol => {
+    const { route, index } = patrol;
+    let direction = patrol.direction;
+    if (!route[index + direction]) direction = direction === 1 ? -1 : 1;
+    const target = route[index + direction];
+    if (!target || grid[target.y][target.x] !== 'EMPTY' || isOccupied(occupied, target)) {
+      return { ...patrol, direction: direction === 1 ? -1 : 1 };
+    }
+    grid[route[index].y][route[index].x] = 'EMPTY';
+    grid[target.y][target.x] = 'WALL';
+    return { ...patrol, index: index + direction, direction };
+  });
+  return { ...world, grid, dynamics: { ...dynamics, patrols } };
+};
+
+// Cells the goal may jump to; reachability is checked per pick
+const goalCandidates = (grid: Grid, occupied: Pos[]) => {
+  const cells: Pos[] = [];
+  grid.forEach((row, y) => row.forEach((type, x) => {
+    if (type === 'EMPTY' && !isOccupied(occupied, { x, y })) cells.push({ x, y });
+  }));
+  return cells;
+};
+
+// Called after episode `episodes` ends. Doors flip (an occupied door stays
+// open) and the goal relocates on their intervals. `changed` reports whether
+// anything happened that should trigger the re-exploration boost.
+export const advanceEpisode = (world: DynamicWorld, start: Pos, episodes: number, rng: Rng, occupied: Pos[]) => {
+  const { dynamics } = world;
+  const doorsDue = dynamics.doorInterval > 0 && dynamics.doors.length > 0 && episodes % dynamics.doorInterval === 0;
+  const goalDue = dynamics.goalInterval > 0 && episodes % dynamics.goalInterval === 0;
+  if (!doorsDue && !goalDue) return { world, changed: false };
+
+  const grid = world.grid.map(row => [...row]);
+  let goal = world.goal;
+  let changed = false;
+
+  if (doorsDue) {
+    for (const { x, y } of dynamics.doors) {
+      if (grid[y][x] === 'WALL') grid[y][x] = 'EMPTY';
+      else if (grid[y][x] === 'EMPTY' && !isOccupied(occupied, { x, y })) grid[y][x] = 'WALL';
+      else continue;
+      changed = true;
+    }
+  }
+
+  if (goalDue) {
+    // Try random cells until one is reachable; give up quietly on a sealed maze
+    const candidates = goalCandidates(grid, occupied);
+    for (let tries = 0; tries < 20 && candidates.length > 0; tries++) {
+      const next = candidates.splice(randomInt(rng, candidates.length), 1)[0];
+      grid[goal.y][goal.x] = 'EMPTY';
+      grid[next.y][next.x] = 'GOAL';
+      if (findPath(grid, start, next)) {
+        goal = next;
+        changed = true;
+        break;
+      }
+      grid[next.y][next.x] = 'EMPTY';
+      grid[goal.y][goal.x] = 'GOAL';
+    }
+  }
+
+  return { world: changed ? { ...world, grid, goal } : world, changed };
+};
+
+// One tick of scripted changes: the episode schedule when an episode just
+// ended (`endedEpisode` is its number), then the patrols
+export const advanceWorld = (
+  world: DynamicWorld,
+  start: Pos,
+  steps: number,
+  endedEpisode: number | null,
+  rng: Rng,
+  occupied: Pos[],
+) => {
+  const advanced = endedEpisode === null ? { world, changed: false } : advanceEpisode(world, start, endedEpisode, rng, occupied);
+  return { world: advanceStep(advanced.world, steps, occupied), changed: advanced.changed };
+};
+
+// Epsilon after an environment change
+export const boostEpsilon = (epsilon: number, dynamics: Dynamics) =>
+  dynamics.boostEpsilon === null ? epsilon : Math.max(epsilon, dynamics.boostEpsilon);
@@ -0,0 +1,124 @@
+import type { EnvConfig, MazeLayout } from './gridWorld';
+import { createVisitCounts, initQTable, type Hyperparams } from './agent';
+import { getQValues, type Algorithm, type QTables } from './algorithms';
+import type { Exploration } from './exploration';
+import { NO_DYNAMICS } from './dynamics';
+import { NO_OBJECTIVES } from './objectives';
+import { NOT_CONVERGED, updateConvergence } from './history';
+import { greedyPath } from './oracle';
+import { createRng } from './rng';
+import { trainEpisodes } from './trainer';
+
+// --- Hyperparameter sweeps ---
+// Every combination of the listed alpha, gamma and epsilon values is trained
+// from scratch on the same maze for a fixed episode budget, once per seed.
+export type SweepAxis = 'alpha' | 'gamma' | 'epsilon';
+
+export const SWEEP_AXES: { id: SweepAxis; label: string }[] = [
+  { id: 'alpha', label: 'α' },
+  { id: 'gamma', label: 'γ' },
+  { id: 'epsilon', label: 'ε' },
+];
+
+export type SweepValues = Record<SweepAxis, number[]>;
+export type SweepConfig = Record<SweepAxis, number>;
+
+// Final return is averaged over this many closing episodes
+export const FINAL_WINDOW = 20;
+
+// "0.05, 0.1 0.5" -> [0.05, 0.1, 0.5]; null unless every entry is a number in [0, 1]
+export const parseValues = (text: string): number[] | null => {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  const values = parts.map(Number);
+  if (values.length === 0 || values.some(v => !Number.isFinite(v) || v < 0 || v > 1)) return null;
+  return [...new Set(values)].sort((a, b) => a - b);
+};
+
+export const expandSweep = ({ alpha, gamma, epsilon }: SweepValues): SweepConfig[] =>
+  alpha.flatMap(a => gamma.flatMap(g => epsilon.map(e => ({ alpha: a, gamma: g, epsilon: e }))));
+
+// Everything shared by the configurations of one sweep
+export type ExperimentSetup = {
+  layout: MazeLayout;
+  env: EnvConfig;
+  algorithm: Algorithm;
+  exploration: Exploration;
+  useHeuristic: boolean;
+  episodes: number; // Budget per run
+  seeds: number;    // Runs per configuration, seeded baseSeed, baseSeed + 1, ...
+  baseSeed: number;
+};
+
+export type ExperimentRequest = ExperimentSetup & { config: SweepConfig };
+
+export type Stat = { mean: number; std: number };
+
+export type ExperimentRow = {
+  config: SweepConfig;
+  convergence: Stat | null; // Episodes to convergence over the runs that converged
+  converged: number;        // Runs that converged within the budget
+  finalReturn: Stat;
+  runs: number;
+};
+
+// Population mean and standard deviation
+export const meanStd = (values: number[]): Stat => {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return { mean, std: Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length) };
+};
+
+// One run from an empty table, checking the greedy path after every episode.
+// Runs use the plain maze: extra goals and checkpoints are left out.
+const runSeed = ({ layout, env, algorithm, exploration, useHeuristic, episodes, config }: ExperimentRequest, seed: number) => {
+  const { grid, start, goal } = layout;
+  const width = grid[0].length;
+  const height = grid.length;
+  const fresh = () => initQTable(width, height, useHeuristic, goal, exploration.optimisticInit);
+  const tables: QTables = { qTable: fresh(), qTableB: algorithm === 'DOUBLE_Q' ? fresh() : null };
+  const visits = createVisitCounts(width, height);
+  const rng = createRng(seed);
+  let params: Hyperparams = { ...config, algorithm, exploration };
+  let convergence = NOT_CONVERGED;
+  const returns: number[] = [];
+
+  for (let episode = 1; episode <= episodes; episode++) {
+    const result = trainEpisodes(
+      { ...tables, visits, dyna: null, layers: null, objectives: NO_OBJECTIVES, grid, start, goal, dynamics: NO_DYNAMICS, env, params, episodes: 1, firstEpisode: episode, seed },
+      rng,
+    );
+    params = { ...params, epsilon: result.epsilon };
+    returns.push(result.history[0].return);
+    const path = greedyPath(grid, start, goal, env, p => getQValues(tables, p));
+    convergence = updateConvergence(convergence, episode, path ? path.length - 1 : null);
+  }
+  return { convergedAt: convergence.convergedAt, finalReturn: meanStd(returns.slice(-FINAL_WINDOW)).mean };
+};
+
+export const runExperiment = (request: ExperimentRequest): ExperimentRow => {
+  const runs = Array.from({ length: request.seeds }, (_, i) => runSeed(request, request.baseSeed + i));
+  const converged = runs.flatMap(r => r.convergedAt === null ? [] : [r.convergedAt]);
+  return {
+    config: request.config,
+    convergence: converged.length > 0 ? meanStd(converged) : null,
+    converged: converged.length,
+    finalReturn: meanStd(runs.map(r => r.finalReturn)),
+    runs: runs.length,
+  };
+};
+
+// Best first: most runs converged, then fastest, then highest final return
+export const compareRows = (a: ExperimentRow, b: ExperimentRow) =>
+  b.converged / b.runs - a.converged / a.runs
+  || (a.convergence?.mean ?? Infinity) - (b.convergence?.mean ?? Infinity)
+  || b.finalReturn.mean - a.finalReturn.mean;
+
+// The whole sweep in one go (used by the Node script; the app runs one
+// configuration per worker so it can report progress)
+export const runSweep = (setup: ExperimentSetup, values: SweepValues, onRow?: (row: ExperimentRow, done: number, total: number) => void) => {
+  const configs = expandSweep(values);
+  return configs.map((config, i) => {
+    const row = runExperiment({ ...setup, config });
+    onRow?.(row, i + 1, configs.length);
+    return row;
+  }).sort(compareRows);
+};
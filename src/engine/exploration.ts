@@ -0,0 +1,128 @@
+import { getBestAction } from './agent';
+import { randomInt, type Rng } from './rng';
+
+// --- Exploration strategies ---
+// Every strategy has one knob in [0, 1], Hyperparams.epsilon: the exploration
+// rate for epsilon-greedy, the temperature for softmax and the bonus weight c
+// for UCB. Softmax and UCB measure it against the spread of the state's
+// Q-values, so the same knob works whatever the reward scale.
+export type ExplorationStrategy = 'EPSILON_GREEDY' | 'SOFTMAX' | 'UCB';
+
+export const STRATEGIES: { id: ExplorationStrategy; label: string; knob: string; rule: string }[] = [
+  { id: 'EPSILON_GREEDY', label: 'ε-greedy', knob: 'Epsilon', rule: 'random action with probability ε, else greedy' },
+  { id: 'SOFTMAX', label: 'Softmax', knob: 'Temperature', rule: 'π(a) ∝ exp(Q(a) / (τ · spread))' },
+  { id: 'UCB', label: 'UCB', knob: 'UCB c', rule: 'argmax Q(a) + c · spread · √(ln N(s) / N(s,a))' },
+];
+
+// --- Decay schedules, applied to the knob after every episode ---
+export type DecaySchedule = 'EXPONENTIAL' | 'LINEAR' | 'STEP';
+
+export const SCHEDULES: { id: DecaySchedule; label: string; defaultRate: number }[] = [
+  { id: 'EXPONENTIAL', label: 'Exponential', defaultRate: 0.995 }, // × rate per episode
+  { id: 'LINEAR', label: 'Linear', defaultRate: 0.002 },           // − rate per episode
+  { id: 'STEP', label: 'Step', defaultRate: 0.5 },                 // × rate every stepEvery episodes
+];
+
+export type Exploration = {
+  strategy: ExplorationStrategy;
+  schedule: DecaySchedule;
+  rate: number;
+  stepEvery: number;             // Step schedule: episodes between drops
+  floor: number;                 // The schedule stops here
+  optimisticInit: number | null; // Start every Q-value here instead of 0 (see initQTable)
+};
+
+export const DEFAULT_EXPLORATION: Exploration = {
+  strategy: 'EPSILON_GREEDY',
+  schedule: 'EXPONENTIAL',
+  rate: 0.995,
+  stepEvery: 100,
+  floor: 0.01,
+  optimisticInit: null,
+};
+
+// The knob once `episodes` episodes have ended. A value already at or below
+// the floor (set by hand) is left alone.
+export const decayExploration = (value: number, { schedule, rate, stepEvery, floor }: Exploration, episodes: number) => {
+  if (value <= floor) return value;
+  const next = schedule === 'LINEAR' ? value - rate
+    : schedule === 'STEP' ? (episodes % stepEvery === 0 ? value * rate : value)
+    : value * rate;
+  return Math.max(floor, next);
+};
+
+// Where the schedule takes the knob over the `count` episodes after `episodes`
+export const projectSchedule = (value: number, exploration: Exploration, episodes: number, count: number) => {
+  const values: number[] = [];
+  for (let i = 1; i <= count; i++) {
+    value = decayExploration(value, exploration, episodes + i);
+    values.push(value);
+  }
+  return values;
+};
+
+// --- Action selection ---
+const spreadOf = (qValues: number[]) => Math.max(...qValues) - Math.min(...qValues) || 1;
+
+// UCB scores; untried actions come first. Without visit counts this is plain greedy.
+const ucbScores = (qValues: number[], c: number, visits: number[] | null) => {
+  if (!visits) return qValues;
+  const total = visits.reduce((n, v) => n + v, 0);
+  const spread = spreadOf(qValues);
+  return qValues.map((q, a) => visits[a] === 0 ? Infinity : q + c * spread * Math.sqrt(Math.log(total) / visits[a]));
+};
+
+// Greedy ties share the probability mass
+const greedyShare = (values: number[]) => {
+  const max = Math.max(...values);
+  const count = values.filter(v => v === max).length;
+  return values.map(v => v === max ? 1 / count : 0);
+};
+
+const softmax = (qValues: number[], temperature: number) => {
+  const max = Math.max(...qValues);
+  if (temperature <= 0) return greedyShare(qValues);
+  const weights = qValues.map(q => Math.exp((q - max) / (temperature * spreadOf(qValues))));
+  const sum = weights.reduce((n, w) => n + w, 0);
+  return weights.map(w => w / sum);
+};
+
+// Probability of each action under the behaviour policy, e.g. for Expected SARSA
+export const actionProbabilities = (
+  qValues: number[],
+  knob: number,
+  { strategy }: Exploration,
+  visits: number[] | null = null,
+) => {
+  if (strategy === 'SOFTMAX') return softmax(qValues, knob);
+  if (strategy === 'UCB') return greedyShare(ucbScores(qValues, knob, visits));
+  const greedy = greedyShare(qValues);
+  return greedy.map(p => knob / qValues.length + (1 - knob) * p);
+};
+
+// Pick an action. Epsilon-greedy draws exactly as it always has, so seeded runs replay unchanged.
+export const chooseAction = (
+  qValues: number[],
+  knob: number,
+  { strategy }: Exploration,
+  rng: Rng,
+  visits: number[] | null = null,
+) => {
+  if (strategy === 'SOFTMAX') {
+    const probs = softmax(qValues, knob);
+    let r = rng();
+    for (let a = 0; a < probs.length - 1; a++) {
+      r -= probs[a];
+      if (r < 0) return a;
+    }
+    return probs.length - 1;
+  }
+  if (strategy === 'UCB') return getBestAction(ucbScores(qValues, knob, visits), rng);
+
+  if (rng() < knob) {
+    // Explore
+    return randomInt(rng, qValues.length);
+  }
+  // Exploit
+  return getBestAction(qValues, rng);
+};
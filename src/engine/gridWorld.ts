@@ -0,0 +1,208 @@
+// --- Grid World Environment ---
+// Pure description of the maze: cell types, the action set, the reward
+// model and the transition function. Nothing in here knows about React.
+import { randomInt, type Rng } from './rng';
+
+export const ACTIONS = [
+  { dx: 0, dy: -1, name: 'UP' },    // 0
+  { dx: 1, dy: 0, name: 'RIGHT' },  // 1
+  { dx: 0, dy: 1, name: 'DOWN' },   // 2
+  { dx: -1, dy: 0, name: 'LEFT' }   // 3
+];
+
+export type RewardKey = 'GOAL' | 'WALL' | 'STEP' | 'MUD' | 'PIT';
+export type Rewards = Record<RewardKey, number>;
+
+// Defaults for the editable reward model
+export const REWARD: Rewards = {
+  GOAL: 100,
+  WALL: -100,
+  STEP: -1,
+  MUD: -5,    // Replaces STEP when entering mud
+  PIT: -100,  // Terminal
+};
+
+export type OneWayCell = 'ONE_WAY_UP' | 'ONE_WAY_RIGHT' | 'ONE_WAY_DOWN' | 'ONE_WAY_LEFT';
+export type TeleportCell = 'TELEPORT_A' | 'TELEPORT_B' | 'TELEPORT_C';
+export type CellType = 'EMPTY' | 'WALL' | 'START' | 'GOAL' | 'MUD' | 'ICE' | 'PIT' | OneWayCell | TeleportCell;
+export type Grid = CellType[][]; // [y][x]
+export type Pos = { x: number; y: number };
+
+// One-way tiles can only be entered by moving in their direction (action index)
+export const ONE_WAY_DIRECTION: Record<OneWayCell, number> = {
+  ONE_WAY_UP: 0,
+  ONE_WAY_RIGHT: 1,
+  ONE_WAY_DOWN: 2,
+  ONE_WAY_LEFT: 3,
+};
+
+// Each teleporter type is one pair: stepping onto one cell lands on the other
+export const TELEPORTS: TeleportCell[] = ['TELEPORT_A', 'TELEPORT_B', 'TELEPORT_C'];
+
+export const isOneWay = (type: CellType): type is OneWayCell => type in ONE_WAY_DIRECTION;
+export const isTeleport = (type: CellType): type is TeleportCell => (TELEPORTS as CellType[]).includes(type);
+export const isTerminal = (type: CellType) => type === 'GOAL' || type === 'PIT';
+
+// Environment dynamics that are not part of the layout
+export type EnvConfig = {
+  rewards: Rewards;
+  slipProbability: number;  // Chance an action taken on ICE goes perpendicular instead
+  maxSteps: number | null;  // Episode step limit; null = twice the number of cells
+  wallsTerminal: boolean;   // Bumping a wall ends the episode
+};
+
+export const DEFAULT_ENV: EnvConfig = {
+  rewards: REWARD,
+  slipProbability: 0.2,
+  maxSteps: null,
+  wallsTerminal: false,
+};
+
+export const getMaxSteps = (env: EnvConfig, grid: Grid) => env.maxSteps ?? gridWidth(grid) * gridHeight(grid) * 2;
+
+export type Transition = {
+  next: Pos;
+  reward: number;
+  done: boolean;        // Reached a terminal state (goal, pit, or a wall when walls are terminal)
+  reachedGoal: boolean;
+  hitWall: boolean;     // Bumped into a wall or a one-way tile from the wrong side (agent stays in place)
+  moved: number;        // Direction actually moved, differs from the action after an ICE slip
+};
+
+export type MazeLayout = { grid: Grid; start: Pos; goal: Pos };
+
+// Supported grid dimensions (either axis)
+export const MIN_GRID_SIZE = 4;
+export const MAX_GRID_SIZE = 100;
+
+export const gridWidth = (grid: Grid) => grid[0]?.length ?? 0;
+export const gridHeight = (grid: Grid) => grid.length;
+
+export const inBounds = (grid: Grid, pos: Pos) =>
+  pos.x >= 0 && pos.x < gridWidth(grid) && pos.y >= 0 && pos.y < gridHeight(grid);
+
+const isBorder = (x: number, y: number, width: number, height: number) =>
+  x === 0 || y === 0 || x === width - 1 || y === height - 1;
+
+// Empty box with border walls, start in the top-left and goal in the bottom-right
+export const createGrid = (width: number, height: number): MazeLayout => {
+  const grid: Grid = Array(height).fill(null).map((_, y) =>
+    Array(width).fill(null).map((_, x) => isBorder(x, y, width, height) ? 'WALL' : 'EMPTY'));
+
+  const start: Pos = { x: 1, y: 1 };
+  const goal: Pos = { x: width - 2, y: height - 2 };
+  grid[start.y][start.x] = 'START';
+  grid[goal.y][goal.x] = 'GOAL';
+
+  return { grid, start, goal };
+};
+
+// --- Resize a layout, keeping whatever overlaps ---
+// The new outer ring is always wall and new interior cells are empty. A start
+// or goal that falls outside the new bounds is pulled back to the nearest interior cell.
+export const resizeLayout = (layout: MazeLayout, width: number, height: number): MazeLayout => {
+  const oldWidth = gridWidth(layout.grid);
+  const oldHeight = gridHeight(layout.grid);
+  const grid: Grid = Array(height).fill(null).map((_, y) =>
+    Array(width).fill(null).map((_, x) => {
+      if (isBorder(x, y, width, height)) return 'WALL';
+      if (x >= oldWidth || y >= oldHeight) return 'EMPTY';
+      const type = layout.grid[y][x];
+      return type === 'START' || type === 'GOAL' ? 'EMPTY' : type;
+    }));
+
+  const clamp = (v: number, size: number) => Math.min(Math.max(v, 1), size - 2);
+  const start = { x: clamp(layout.start.x, width), y: clamp(layout.start.y, height) };
+  let goal = { x: clamp(layout.goal.x, width), y: clamp(layout.goal.y, height) };
+
+  // Both clamped onto the same corner: move the goal to the opposite one
+  if (goal.x === start.x && goal.y === start.y) {
+    goal = { x: start.x === 1 ? width - 2 : 1, y: start.y === 1 ? height - 2 : 1 };
+  }
+
+  grid[start.y][start.x] = 'START';
+  grid[goal.y][goal.x] = 'GOAL';
+  return { grid, start, goal };
+};
+
+// --- Teleporters ---
+// Partner lookup is cached per grid; grids are replaced, never edited, on change.
+const teleportCache = new WeakMap<Grid, Map<string, Pos>>();
+
+export const getTeleportPartners = (grid: Grid) => {
+  let partners = teleportCache.get(grid);
+  if (!partners) {
+    const cells: Partial<Record<TeleportCell, Pos[]>> = {};
+    grid.forEach((row, y) => row.forEach((type, x) => {
+      if (isTeleport(type)) (cells[type] ??= []).push({ x, y });
+    }));
+    partners = new Map();
+    // Only complete pairs teleport; a lone or extra pad is plain floor
+    for (const pads of Object.values(cells)) {
+      if (pads.length !== 2) continue;
+      partners.set(`${pads[0].x},${pads[0].y}`, pads[1]);
+      partners.set(`${pads[1].x},${pads[1].y}`, pads[0]);
+    }
+    teleportCache.set(grid, partners);
+  }
+  return partners;
+};
+
+// Where a move in a given direction ends up, with no randomness involved
+export const resolveMove = (grid: Grid, pos: Pos, dir: number, env: EnvConfig): Transition => {
+  const { rewards } = env;
+  const action = ACTIONS[dir];
+  const target = { x: pos.x + action.dx, y: pos.y + action.dy };
+  const stay = { next: { x: pos.x, y: pos.y }, done: false, reachedGoal: false, moved: dir };
+
+  // Boundary check
+  if (!inBounds(grid, target)) {
+    return { ...stay, reward: rewards.STEP, hitWall: false };
+  }
+
+  const cellType = grid[target.y][target.x];
+
+  if (cellType === 'WALL' || (isOneWay(cellType) && ONE_WAY_DIRECTION[cellType] !== dir)) {
+    return { ...stay, reward: rewards.WALL, hitWall: true, done: env.wallsTerminal };
+  }
+
+  const enter = { next: target, done: false, reachedGoal: false, hitWall: false, moved: dir };
+  if (cellType === 'GOAL') return { ...enter, reward: rewards.GOAL, done: true, reachedGoal: true };
+  if (cellType === 'PIT') return { ...enter, reward: rewards.PIT, done: true };
+  if (cellType === 'MUD') return { ...enter, reward: rewards.MUD };
+  if (isTeleport(cellType)) {
+    const partner = getTeleportPartners(grid).get(`${target.x},${target.y}`);
+    return { ...enter, next: partner ?? target, reward: rewards.STEP };
+  }
+  return { ...enter, reward: rewards.STEP };
+};
+
+// Directions at 90 degrees to an action
+export const perpendicular = (dir: number) => [(dir + 1) % 4, (dir + 3) % 4];
+
+// --- Transition model ---
+// Every possible result of an action with its probability. Only ICE branches.
+export const getOutcomes = (grid: Grid, pos: Pos, actionIdx: number, env: EnvConfig) => {
+  const p = env.slipProbability;
+  if (grid[pos.y][pos.x] !== 'ICE' || p === 0) {
+    return [{ prob: 1, transition: resolveMove(grid, pos, actionIdx, env) }];
+  }
+  return [
+    { prob: 1 - p, transition: resolveMove(grid, pos, actionIdx, env) },
+    ...perpendicular(actionIdx).map(dir => ({ prob: p / 2, transition: resolveMove(grid, pos, dir, env) })),
+  ];
+};
+
+// True when some action can have more than one outcome
+export const isStochastic = (grid: Grid, env: EnvConfig) =>
+  env.slipProbability > 0 && grid.some(row => row.includes('ICE'));
+
+// Apply an action from a position and observe the reward & next state.
+// Only ICE consumes randomness, so deterministic mazes replay identically.
+export const transition = (grid: Grid, pos: Pos, actionIdx: number, env: EnvConfig, rng: Rng): Transition => {
+  let dir = actionIdx;
+  if (grid[pos.y][pos.x] === 'ICE' && env.slipProbability > 0 && rng() < env.slipProbability) {
+    dir = perpendicular(actionIdx)[randomInt(rng, 2)];
+  }
+  return resolveMove(grid, pos, dir, env);
+};
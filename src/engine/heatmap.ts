@@ -0,0 +1,77 @@
+import type { Grid, Pos } from './gridWorld';
+import type { VisitCounts } from './agent';
+import { actionProbabilities, type Exploration } from './exploration';
+import type { CellUpdate } from './trainer';
+
+// --- Heatmap layers ---
+// What the grid's cell colors show. Every layer is derived from the data the
+// grid currently views, and its color scale spans that data's actual range.
+export type HeatLayer = 'VALUE' | 'ACTIONS' | 'VISITS' | 'TD_ERROR' | 'ENTROPY';
+
+export const HEAT_LAYERS: { id: HeatLayer; label: string; signed: boolean; description: string }[] = [
+  { id: 'VALUE', label: 'V(s) = max Q', signed: true, description: 'Value of the best action' },
+  { id: 'ACTIONS', label: 'Q per action', signed: true, description: 'One triangle per action, pointing its way' },
+  { id: 'VISITS', label: 'Visits', signed: false, description: 'Actions taken in the cell' },
+  { id: 'TD_ERROR', label: '|TD error|', signed: false, description: 'Size of the last live update' },
+  { id: 'ENTROPY', label: 'Policy entropy', signed: false, description: 'Bits of randomness in the behaviour policy' },
+];
+
+// Signed layers are centred on zero; the others run from their minimum up
+export const isSigned = (layer: HeatLayer) => HEAT_LAYERS.find(l => l.id === layer)?.signed ?? false;
+
+// Where the layer's data comes from; null when the viewed agent does not have it
+export type HeatSource = {
+  grid: Grid;
+  qValues: (p: Pos) => number[];
+  visits: VisitCounts | null;
+  lastUpdates: Map<string, CellUpdate> | null; // Latest live update per "x,y"
+  knob: number;                                // Epsilon or temperature, for the entropy
+  exploration: Exploration;
+};
+
+export type HeatRange = { min: number; max: number };
+
+export type Heatmap = {
+  layer: HeatLayer;
+  cells: (number[] | null)[][]; // [y][x]: one value, or one per action for ACTIONS; null = no data
+  range: HeatRange | null;      // Over every value shown, null when there are none
+};
+
+// Rounded so that equal policies compare equal despite floating-point noise
+const entropyBits = (probs: number[]) => Math.round(probs.reduce((h, p) => p > 0 ? h - p * Math.log2(p) : h, 0) * 1e9) / 1e9;
+
+const cellValues = (layer: HeatLayer, source: HeatSource, pos: Pos): number[] | null => {
+  const { x, y } = pos;
+  switch (layer) {
+    case 'VALUE':
+      return [Math.max(...source.qValues(pos))];
+    case 'ACTIONS':
+      return source.qValues(pos);
+    case 'VISITS':
+      return source.visits ? [source.visits[y][x].reduce((n, v) => n + v, 0)] : null;
+    case 'TD_ERROR': {
+      const update = source.lastUpdates?.get(`${x},${y}`);
+      return update ? [Math.abs(update.tdError)] : null;
+    }
+    case 'ENTROPY': {
+      const probs = actionProbabilities(source.qValues(pos), source.knob, source.exploration, source.visits?.[y][x] ?? null);
+      return [entropyBits(probs)];
+    }
+  }
+};
+
+// Walls, pits and the goal never hold a learned value, so they stay out of the scale
+export const computeHeatmap = (layer: HeatLayer, source: HeatSource): Heatmap => {
+  let min = Infinity;
+  let max = -Infinity;
+  const cells = source.grid.map((row, y) => row.map((type, x) => {
+    if (type === 'WALL' || type === 'PIT' || type === 'GOAL') return null;
+    const values = cellValues(layer, source, { x, y });
+    values?.forEach(v => {
+      if (v < min) min = v;
+      if (v > max) max = v;
+    });
+    return values;
+  }));
+  return { layer, cells, range: min <= max ? { min, max } : null };
+};
@@ -0,0 +1,106 @@
+import type { EnvConfig, RewardKey } from './gridWorld';
+
+// --- Per-episode learning history ---
+export type EpisodeOutcome = 'GOAL' | 'PIT' | 'WALL' | 'TIMEOUT';
+
+// What the engine knows when an episode ends
+export type EpisodeSummary = {
+  steps: number;
+  return: number;
+  outcome: EpisodeOutcome;
+  meanTdError: number; // Mean |TD error| over the episode's updates
+};
+
+export type EpisodeRecord = EpisodeSummary & {
+  episode: number;
+  epsilon: number; // Epsilon the episode ended with (before decay)
+};
+
+// Only the latest episodes are kept, so long runs and headless batches stay
+// cheap to chart and export
+export const MAX_HISTORY = 5000;
+
+export const appendHistory = (history: EpisodeRecord[], records: EpisodeRecord[]) => {
+  const next = [...history, ...records];
+  return next.length > MAX_HISTORY ? next.slice(-MAX_HISTORY) : next;
+};
+
+// --- Run metadata: settings changed mid-run ---
+export type RunSettingValue = number | boolean | null;
+
+export type RunEvent = {
+  episode: number; // Episode counter when the change was made
+  setting: string;
+  from: RunSettingValue;
+  to: RunSettingValue;
+};
+
+// Append changes, folding repeated edits of one setting within the same
+// episode (e.g. dragging a slider) into a single event
+export const logRunChanges = (log: RunEvent[], episode: number, changes: Omit<RunEvent, 'episode'>[]) => {
+  const next = [...log];
+  for (const change of changes) {
+    const last = next[next.length - 1];
+    if (last && last.episode === episode && last.setting === change.setting) {
+      next[next.length - 1] = { ...last, to: change.to };
+      if (last.from === change.to) next.pop();
+    } else if (change.from !== change.to) {
+      next.push({ episode, ...change });
+    }
+  }
+  return next;
+};
+
+// Setting-by-setting difference between two environment configs
+export const diffEnvConfig = (prev: EnvConfig, next: EnvConfig): Omit<RunEvent, 'episode'>[] => [
+  ...(Object.keys(next.rewards) as RewardKey[]).map(key => ({
+    setting: `reward.${key}`,
+    from: prev.rewards[key],
+    to: next.rewards[key],
+  })),
+  { setting: 'slipProbability', from: prev.slipProbability, to: next.slipProbability },
+  { setting: 'maxSteps', from: prev.maxSteps, to: next.maxSteps },
+  { setting: 'wallsTerminal', from: prev.wallsTerminal, to: next.wallsTerminal },
+].filter(change => change.from !== change.to);
+
+// --- Convergence: the greedy policy has stopped changing ---
+// Converged once the greedy path from the start has reached the goal with the
+// same length for CONVERGENCE_WINDOW episodes in a row; the episode where that
+// streak began is the episodes-to-convergence figure.
+export const CONVERGENCE_WINDOW = 20;
+
+export type Convergence = {
+  pathLength: number | null; // Greedy path length after the last episode, null if it misses the goal
+  streak: number;
+  streakStart: number;
+  convergedAt: number | null; // First convergence, kept even if the policy changes later
+};
+
+export const NOT_CONVERGED: Convergence = { pathLength: null, streak: 0, streakStart: 0, convergedAt: null };
+
+export const updateConvergence = (c: Convergence, episode: number, pathLength: number | null): Convergence => {
+  if (pathLength === null) return { ...c, pathLength, streak: 0 };
+  const streak = pathLength === c.pathLength ? c.streak + 1 : 1;
+  const streakStart = streak === 1 ? episode : c.streakStart;
+  const convergedAt = c.convergedAt ?? (streak >= CONVERGENCE_WINDOW ? streakStart : null);
+  return { pathLength, streak, streakStart, convergedAt };
+};
+
+// Trailing moving average; the first points average over what exists so far
+export const movingAverage = (values: number[], window: number) => {
+  const out: number[] = [];
+  let sum = 0;
+  values.forEach((v, i) => {
+    sum += v;
+    if (i >= window) sum -= values[i - window];
+    out.push(sum / Math.min(i + 1, window));
+  });
+  return out;
+};
+
+export const HISTORY_CSV_HEADER = 'episode,steps,return,outcome,epsilon,mean_abs_td_error';
+
+export const historyToCsv = (history: EpisodeRecord[]) => [
+  HISTORY_CSV_HEADER,
+  ...history.map(r => [r.episode, r.steps, r.return, r.outcome, r.epsilon, r.meanTdError].join(',')),
+].join('\n') + '\n';
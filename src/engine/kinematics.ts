@@ -0,0 +1,225 @@
+import { ACTIONS, gridHeight, gridWidth, transition, type EnvConfig, type Grid, type Pos } from './gridWorld';
+import { copyOverlap, createVisitCounts, type Hyperparams, type QTable, type VisitCounts } from './agent';
+import { getQValues, tdUpdate, type QTables } from './algorithms';
+import { chooseAction, decayExploration } from './exploration';
+import { advanceWorld, boostEpsilon, type DynamicWorld, type Dynamics } from './dynamics';
+import type { EpisodeRecord, EpisodeSummary } from './history';
+import type { Rng } from './rng';
+import { finishStep, startEpisode, type EpisodeState } from './trainer';
+
+// --- Car kinematics: a racetrack-style state space ---
+// The state is (x, y, heading, speed). Each tick the car applies one control,
+// then drives `speed` cells along its heading. Headings are ACTIONS indices.
+export const MAX_SPEED = 2;
+export const SPEEDS = MAX_SPEED + 1;
+export const SLICE_COUNT = ACTIONS.length * SPEEDS;
+
+export type Slice = { heading: number; speed: number };
+export type CarState = Pos & Slice;
+
+// `symbol` is drawn rotated to the car's heading, like the grid mode arrows
+export const KINEMATIC_ACTIONS = [
+  { name: 'ACCELERATE', symbol: '⇑' }, // 0
+  { name: 'BRAKE', symbol: '⇓' },      // 1
+  { name: 'TURN_LEFT', symbol: '↰' },  // 2
+  { name: 'TURN_RIGHT', symbol: '↱' }, // 3
+  { name: 'COAST', symbol: '↑' },      // 4
+];
+
+// One grid-shaped table pair per (heading, speed) slice, indexed by sliceIndex.
+// Every slice is an ordinary QTable whose rows hold the KINEMATIC_ACTIONS values.
+export type KinematicTables = QTables[];
+
+export const sliceIndex = ({ heading, speed }: Slice) => heading * SPEEDS + speed;
+
+// Parked facing right: mazes start in the top-left corner
+export const startCar = (start: Pos): CarState => ({ ...start, heading: 1, speed: 0 });
+
+// --- Controls ---
+export const applyControl = ({ heading, speed }: Slice, action: number): Slice => {
+  switch (KINEMATIC_ACTIONS[action].name) {
+    case 'ACCELERATE': return { heading, speed: Math.min(MAX_SPEED, speed + 1) };
+    case 'BRAKE': return { heading, speed: Math.max(0, speed - 1) };
+    case 'TURN_LEFT': return { heading: (heading + 3) % 4, speed };
+    case 'TURN_RIGHT': return { heading: (heading + 1) % 4, speed };
+    default: return { heading, speed };
+  }
+};
+
+// --- Tables ---
+// Same distance gradient (or optimistic start) as initQTable, measured from
+// where the control would take the car on an open floor
+const initSlice = (width: number, height: number, useHeuristic: boolean, goal: Pos, optimistic: number | null, slice: Slice): QTable =>
+  Array(height).fill(null).map((_, y) => Array(width).fill(null).map((_, x) => KINEMATIC_ACTIONS.map((_, a) => {
+    if (!useHeuristic) return optimistic ?? 0;
+    const { heading, speed } = applyControl(slice, a);
+    const nx = x + ACTIONS[heading].dx * speed;
+    const ny = y + ACTIONS[heading].dy * speed;
+    return -Math.sqrt(Math.pow(nx - goal.x, 2) + Math.pow(ny - goal.y, 2)) * 2;
+  })));
+
+export const initKinematicTables = (
+  width: number,
+  height: number,
+  useHeuristic: boolean,
+  goal: Pos,
+  double: boolean,
+  optimistic: number | null = null,
+): KinematicTables =>
+  Array.from({ length: SLICE_COUNT }, (_, i) => {
+    const slice = { heading: Math.floor(i / SPEEDS), speed: i % SPEEDS };
+    return {
+      qTable: initSlice(width, height, useHeuristic, goal, optimistic, slice),
+      qTableB: double ? initSlice(width, height, useHeuristic, goal, optimistic, slice) : null,
+    };
+  });
+
+// Visit counts per slice, for UCB
+export const createKinematicVisits = (width: number, height: number): VisitCounts[] =>
+  Array.from({ length: SLICE_COUNT }, () => createVisitCounts(width, height, KINEMATIC_ACTIONS.length));
+
+// Keep what was learned where the old and new grids overlap
+export const resizeKinematicTables = (
+  tables: KinematicTables,
+  width: number,
+  height: number,
+  useHeuristic: boolean,
+  goal: Pos,
+  optimistic: number | null = null,
+): KinematicTables =>
+  initKinematicTables(width, height, useHeuristic, goal, tables[0].qTableB !== null, optimistic).map((fresh, i) => ({
+    qTable: copyOverlap(tables[i].qTable, fresh.qTable),
+    qTableB: fresh.qTableB && tables[i].qTableB && copyOverlap(tables[i].qTableB, fresh.qTableB),
+  }));
+
+// --- Transition ---
+// Cell by cell along the heading, so nothing is jumped over. Goal and pit end
+// the move as usual; a wall stops the car dead at a cost of WALL × speed; mud
+// ends the move and drops the car to speed 1; ice may slip each cell sideways.
+export type KinematicTransition = {
+  next: CarState;
+  reward: number;
+  done: boolean;
+  reachedGoal: boolean;
+  hitWall: boolean;
+};
+
+export const kinematicTransition = (grid: Grid, car: CarState, action: number, env: EnvConfig, rng: Rng): KinematicTransition => {
+  const { heading, speed } = applyControl(car, action);
+  let pos: Pos = { x: car.x, y: car.y };
+
+  for (let cell = 0; cell < speed; cell++) {
+    const t = transition(grid, pos, heading, env, rng);
+    if (t.hitWall) {
+      return { next: { ...pos, heading, speed: 0 }, reward: env.rewards.WALL * speed, done: t.done, reachedGoal: false, hitWall: true };
+    }
+    if (t.done) return { next: { ...t.next, heading, speed }, reward: t.reward, done: true, reachedGoal: t.reachedGoal, hitWall: false };
+    if (t.next.x === pos.x && t.next.y === pos.y) break; // Off the edge of a borderless maze
+    pos = t.next;
+    if (grid[pos.y][pos.x] === 'MUD') {
+      return { next: { ...pos, heading, speed: 1 }, reward: env.rewards.MUD, done: false, reachedGoal: false, hitWall: false };
+    }
+  }
+  return { next: { ...pos, heading, speed }, reward: env.rewards.STEP, done: false, reachedGoal: false, hitWall: false };
+};
+
+// --- The kinematic TD step ---
+export type KinematicContext = {
+  tables: KinematicTables;
+  visits: VisitCounts[]; // Per slice, incremented for every (s, a) taken
+  grid: Grid;
+  start: Pos;
+  env: EnvConfig;
+  params: Hyperparams;
+  rng: Rng;
+};
+
+export type KinematicStepResult = {
+  state: EpisodeState<CarState>; // Already reset if the episode ended
+  car: CarState;                 // Where the car actually landed this step
+  action: number;
+  reward: number;
+  reachedGoal: boolean;
+  summary: EpisodeSummary | null;
+};
+
+// Same algorithms as the grid car; s and s' usually sit in different slices.
+// Mutates the tables in place.
+export const stepKinematic = (ctx: KinematicContext, state: EpisodeState<CarState>): KinematicStepResult => {
+  const { tables, visits, grid, start, env, params, rng } = ctx;
+  const car = state.pos;
+  const here = tables[sliceIndex(car)];
+  const counts = visits[sliceIndex(car)][car.y][car.x];
+
+  const action = params.algorithm === 'SARSA' && state.nextAction !== null
+    ? state.nextAction
+    : chooseAction(getQValues(here, car), params.epsilon, params.exploration, rng, counts);
+  const t = kinematicTransition(grid, car, action, env, rng);
+  const { nextAction, tdError } = tdUpdate(here, params, car, action, t.reward, t.next, t.done, rng, {
+    tables: tables[sliceIndex(t.next)],
+    visits: visits[sliceIndex(t.next)][t.next.y][t.next.x],
+  });
+  counts[action]++;
+
+  const finished = finishStep(state, startCar(start), env, grid, { ...t, tdError, nextAction });
+  return { ...finished, car: t.next, action, reward: t.reward, reachedGoal: t.reachedGoal };
+};
+
+// --- Headless fast-forward, as trainEpisodes for the grid car ---
+export type KinematicTrainRequest = {
+  tables: KinematicTables;
+  visits: VisitCounts[];
+  grid: Grid;
+  start: Pos;
+  goal: Pos;
+  dynamics: Dynamics;
+  env: EnvConfig;
+  params: Hyperparams;
+  episodes: number;
+  firstEpisode: number;
+  seed: number;
+};
+
+export type KinematicTrainResult = {
+  tables: KinematicTables;
+  visits: VisitCounts[];
+  epsilon: number;
+  episodes: number;
+  steps: number;
+  history: EpisodeRecord[];
+  world: DynamicWorld;
+};
+
+export const trainKinematicEpisodes = (request: KinematicTrainRequest, rng: Rng): KinematicTrainResult => {
+  const { tables, visits, grid, start, goal, dynamics, env, episodes } = request;
+  const ctx: KinematicContext = { tables, visits, grid, start, env, params: { ...request.params }, rng };
+  let world: DynamicWorld = { grid, goal, dynamics };
+
+  const history: EpisodeRecord[] = [];
+  let state = startEpisode(startCar(start));
+  let completed = 0;
+  let steps = 0;
+
+  while (completed < episodes) {
+    const result = stepKinematic(ctx, state);
+    steps++;
+    state = result.state;
+    if (result.summary) {
+      const episode = request.firstEpisode + completed;
+      history.push({ ...result.summary, episode, epsilon: ctx.params.epsilon });
+      completed++;
+      ctx.params.epsilon = decayExploration(ctx.params.epsilon, ctx.params.exploration, episode);
+    }
+
+    const ended = result.summary ? request.firstEpisode + completed - 1 : null;
+    const advanced = advanceWorld(world, start, steps, ended, rng, [state.pos]);
+    world = advanced.world;
+    ctx.grid = world.grid;
+    if (advanced.changed) ctx.params.epsilon = boostEpsilon(ctx.params.epsilon, world.dynamics);
+  }
+
+  return { tables, visits, epsilon: ctx.params.epsilon, episodes: completed, steps, history, world };
+};
+
+// Number of (x, y, heading, speed) states on a grid
+export const kinematicStateCount = (grid: Grid) => gridWidth(grid) * gridHeight(grid) * SLICE_COUNT;
@@ -0,0 +1,221 @@
+import {
+  ACTIONS,
+  getMaxSteps,
+  gridHeight,
+  gridWidth,
+  inBounds,
+  resolveMove,
+  transition,
+  type EnvConfig,
+  type Grid,
+  type MazeLayout,
+  type Pos,
+} from './gridWorld';
+import { getMaxQ, type Hyperparams, type QTable } from './agent';
+import { chooseAction, decayExploration } from './exploration';
+import { generateMaze, type Generator } from './mazeGen';
+import { findPath } from './pathfinding';
+import { greedyPath } from './oracle';
+import { randomInt, type Rng } from './rng';
+
+// --- Linear function approximation ---
+// Q(s, a) = w · φ(s, a), one weight vector shared by all actions. The features
+// describe the car's surroundings as seen when facing direction a, not its
+// cell, so what is learned on one maze carries over to another:
+//   bias | goal offset along a, across a, and distance | sensors towards a:
+//   blocked, pit, open run, goal in line of sight | tile-coded position (per action)
+// Positions and offsets are scaled by the grid size, so any size of grid has
+// the same FEATURE_COUNT.
+const TILINGS = 3;
+const TILES = 4; // Per side, over the unit square
+const TILE_FEATURES = TILINGS * (TILES + 1) * (TILES + 1);
+const SENSE_FEATURES = 8;
+
+export const FEATURE_COUNT = SENSE_FEATURES + ACTIONS.length * TILE_FEATURES;
+
+export type LinearModel = {
+  weights: number[];
+};
+
+export const initLinearModel = (): LinearModel => ({ weights: Array(FEATURE_COUNT).fill(0) });
+
+export const cloneLinearModel = ({ weights }: LinearModel): LinearModel => ({ weights: [...weights] });
+
+// Drive straight from pos: how many cells are open, and whether the goal comes first
+const lookAhead = (grid: Grid, pos: Pos, dir: number, env: EnvConfig) => {
+  const limit = gridWidth(grid) + gridHeight(grid);
+  let p = pos;
+  for (let run = 0; run < limit; run++) {
+    const { next, hitWall, done, reachedGoal } = resolveMove(grid, p, dir, env);
+    if (reachedGoal) return { run: run + 1, seesGoal: true };
+    if (hitWall || done || (next.x === p.x && next.y === p.y)) return { run, seesGoal: false };
+    p = next;
+  }
+  return { run: limit, seesGoal: false };
+};
+
+// Active tile of each tiling, each tiling shifted by a fraction of a tile
+const activeTiles = (grid: Grid, { x, y }: Pos) => {
+  const u = x / Math.max(1, gridWidth(grid) - 1);
+  const v = y / Math.max(1, gridHeight(grid) - 1);
+  return Array.from({ length: TILINGS }, (_, t) => {
+    const offset = t / TILINGS;
+    return t * (TILES + 1) * (TILES + 1) + Math.floor(v * TILES + offset) * (TILES + 1) + Math.floor(u * TILES + offset);
+  });
+};
+
+// --- Features: one vector per action ---
+export const stateFeatures = (grid: Grid, pos: Pos, goal: Pos, env: EnvConfig): number[][] => {
+  const width = gridWidth(grid);
+  const height = gridHeight(grid);
+  const dx = (goal.x - pos.x) / width;
+  const dy = (goal.y - pos.y) / height;
+  const tiles = activeTiles(grid, pos);
+
+  return ACTIONS.map((action, dir) => {
+    const target = { x: pos.x + action.dx, y: pos.y + action.dy };
+    const blocked = resolveMove(grid, pos, dir, env).hitWall || !inBounds(grid, target);
+    const { run, seesGoal } = lookAhead(grid, pos, dir, env);
+    const along = dx * action.dx + dy * action.dy;
+    const features = Array(FEATURE_COUNT).fill(0);
+    features.splice(0, SENSE_FEATURES,
+      1,
+      along,
+      Math.abs(dx * action.dy) + Math.abs(dy * action.dx),
+      Math.abs(dx) + Math.abs(dy),
+      blocked ? 1 : 0,
+      !blocked && grid[target.y][target.x] === 'PIT' ? 1 : 0,
+      run / Math.max(width, height),
+      seesGoal ? 1 : 0,
+    );
+    tiles.forEach(tile => { features[SENSE_FEATURES + dir * TILE_FEATURES + tile] = 1; });
+    return features;
+  });
+};
+
+const dot = (weights: number[], features: number[]) => weights.reduce((sum, w, i) => sum + w * features[i], 0);
+
+export const linearQValues = ({ weights }: LinearModel, features: number[][]) => features.map(f => dot(weights, f));
+
+// The model's Q-values for every cell, shaped like a QTable so the grid can draw them
+export const linearQTable = (model: LinearModel, grid: Grid, goal: Pos, env: EnvConfig): QTable =>
+  grid.map((row, y) => row.map((_, x) => linearQValues(model, stateFeatures(grid, { x, y }, goal, env))));
+
+// --- Semi-gradient Q-learning ---
+// w += α · δ · φ(s,a) / |φ(s,a)|², δ = R + γ max_a' Q(s',a') − Q(s,a). Dividing
+// by |φ|² keeps the step size independent of how many features are active.
+// Mutates the model and returns δ.
+export const linearUpdate = (
+  { weights }: LinearModel,
+  { alpha, gamma }: Hyperparams,
+  features: number[],
+  reward: number,
+  nextQ: number[] | null, // null when s' is terminal
+) => {
+  const tdError = reward + (nextQ ? gamma * getMaxQ(nextQ) : 0) - dot(weights, features);
+  const norm = features.reduce((sum, f) => sum + f * f, 0) || 1;
+  for (let i = 0; i < weights.length; i++) weights[i] += (alpha * tdError * features[i]) / norm;
+  return tdError;
+};
+
+// --- Randomized training layouts ---
+// Open cells the car may start on or the goal may move to
+const openCells = (grid: Grid) => {
+  const cells: Pos[] = [];
+  grid.forEach((row, y) => row.forEach((type, x) => {
+    if (type === 'EMPTY' || type === 'START' || type === 'GOAL') cells.push({ x, y });
+  }));
+  return cells;
+};
+
+// The same maze with the goal moved to `goal`; START is an ordinary open cell
+const withGoal = (grid: Grid, goal: Pos): Grid =>
+  grid.map((row, y) => row.map((type, x) => x === goal.x && y === goal.y ? 'GOAL' : type === 'GOAL' ? 'EMPTY' : type));
+
+// A random start and reachable goal on `grid`, or on a fresh maze from `generator`
+export const randomLayout = (grid: Grid, generator: Generator | null, rng: Rng): MazeLayout | null => {
+  const width = gridWidth(grid);
+  const height = gridHeight(grid);
+  const pick = (cells: Pos[]) => cells[randomInt(rng, cells.length)];
+  if (generator) {
+    const interior = () => ({ x: 1 + randomInt(rng, width - 2), y: 1 + randomInt(rng, height - 2) });
+    const { layout } = generateMaze({ generator, width, height, seed: randomInt(rng, 2 ** 32), density: 0.2, start: interior(), goal: interior() });
+    return layout.start.x === layout.goal.x && layout.start.y === layout.goal.y ? null : layout;
+  }
+
+  const cells = openCells(grid);
+  if (cells.length < 2) return null;
+  for (let tries = 0; tries < 20; tries++) {
+    const start = pick(cells);
+    const goal = pick(cells);
+    if (start.x === goal.x && start.y === goal.y) continue;
+    const moved = withGoal(grid, goal);
+    if (findPath(moved, start, goal)) return { grid: moved, start, goal };
+  }
+  return null;
+};
+
+// --- Headless training on randomized layouts ---
+// Progress across training batches
+export type LinearRun = {
+  episodes: number;        // Trained so far
+  epsilon: number;         // Exploration for the next batch
+  goalRate: number | null; // Share of the last batch that reached the goal
+};
+
+export const NEW_LINEAR_RUN: LinearRun = { episodes: 0, epsilon: 1, goalRate: null };
+
+export type LinearTrainRequest = {
+  model: LinearModel;
+  grid: Grid;                  // Maze whose start and goal are shuffled every episode...
+  generator: Generator | null; // ...or a fresh maze per episode from this generator
+  env: EnvConfig;
+  params: Hyperparams;
+  episodes: number;
+  seed: number;
+};
+
+export type LinearTrainResult = {
+  model: LinearModel;
+  epsilon: number;
+  episodes: number;
+  steps: number;
+  goals: number; // Episodes that reached the goal
+};
+
+// Mutates the request's model
+export const trainLinearEpisodes = (request: LinearTrainRequest, rng: Rng): LinearTrainResult => {
+  const { model, env, episodes } = request;
+  const params = { ...request.params };
+  let steps = 0;
+  let goals = 0;
+  let completed = 0;
+
+  for (let tries = 0; completed < episodes && tries < episodes * 2; tries++) {
+    const layout = randomLayout(request.grid, request.generator, rng);
+    if (!layout) continue;
+    const { grid, goal } = layout;
+    const maxSteps = getMaxSteps(env, grid);
+    let pos = layout.start;
+    let features = stateFeatures(grid, pos, goal, env);
+
+    for (let moves = 0; moves < maxSteps; moves++) {
+      const action = chooseAction(linearQValues(model, features), params.epsilon, params.exploration, rng);
+      const t = transition(grid, pos, action, env, rng);
+      const nextFeatures = stateFeatures(grid, t.next, goal, env);
+      linearUpdate(model, params, features[action], t.reward, t.done ? null : linearQValues(model, nextFeatures));
+      steps++;
+      if (t.reachedGoal) goals++;
+      if (t.done) break;
+      pos = t.next;
+      features = nextFeatures;
+    }
+    completed++;
+    params.epsilon = decayExploration(params.epsilon, params.exploration, completed);
+  }
+  return { model, epsilon: params.epsilon, episodes: completed, steps, goals };
+};
+
+// --- Evaluation: the greedy policy on a maze it may never have seen ---
+export const evaluateLinear = (model: LinearModel, { grid, start, goal }: MazeLayout, env: EnvConfig) =>
+  greedyPath(grid, start, goal, env, p => linearQValues(model, stateFeatures(grid, p, goal, env)));
@@ -0,0 +1,171 @@
+import { createGrid, type Grid, type MazeLayout, type Pos } from './gridWorld';
+import { findPath, wallsBlockingPath } from './pathfinding';
+import { createRng, randomInt, type Rng } from './rng';
+
+// --- Procedural Maze Generators ---
+// All generators work on the interior of a wall-bordered box. The "perfect"
+// mazes carve passages through odd coordinates, leaving walls on even ones.
+export type Generator = 'BACKTRACKER' | 'PRIM' | 'ROOMS' | 'RANDOM';
+
+export const GENERATORS: { id: Generator; label: string }[] = [
+  { id: 'BACKTRACKER', label: 'Recursive Backtracker' },
+  { id: 'PRIM', label: "Prim's" },
+  { id: 'ROOMS', label: 'Rooms & Doors' },
+  { id: 'RANDOM', label: 'Random Obstacles' },
+];
+
+export type GenerateOptions = {
+  generator: Generator;
+  width: number;
+  height: number;
+  seed: number;
+  density: number; // Wall probability, RANDOM only
+  start: Pos;      // Kept where they are (clamped into the interior)
+  goal: Pos;
+};
+
+export type GenerateResult = {
+  layout: MazeLayout;
+  repairedWalls: number; // Walls removed to make the goal reachable
+};
+
+const filledGrid = (width: number, height: number): Grid =>
+  Array(height).fill(null).map(() => Array(width).fill('WALL'));
+
+// Passage cells two steps away, still inside the border
+const cellNeighbors = (grid: Grid, { x, y }: Pos) =>
+  [[0, -2], [2, 0], [0, 2], [-2, 0]]
+    .map(([dx, dy]) => ({ x: x + dx, y: y + dy }))
+    .filter(p => p.x > 0 && p.y > 0 && p.y < grid.length - 1 && p.x < grid[0].length - 1);
+
+const carveBetween = (grid: Grid, a: Pos, b: Pos) => {
+  grid[a.y][a.x] = 'EMPTY';
+  grid[(a.y + b.y) / 2][(a.x + b.x) / 2] = 'EMPTY';
+  grid[b.y][b.x] = 'EMPTY';
+};
+
+// Depth-first search with an explicit stack: long, winding corridors
+const backtracker = (width: number, height: number, rng: Rng) => {
+  const grid = filledGrid(width, height);
+  const origin = { x: 1, y: 1 };
+  grid[origin.y][origin.x] = 'EMPTY';
+  const stack = [origin];
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const options = cellNeighbors(grid, current).filter(p => grid[p.y][p.x] === 'WALL');
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const next = options[randomInt(rng, options.length)];
+    carveBetween(grid, current, next);
+    stack.push(next);
+  }
+  return grid;
+};
+
+// Randomized Prim's: grows from a frontier, giving many short dead ends
+const prim = (width: number, height: number, rng: Rng) => {
+  const grid = filledGrid(width, height);
+  grid[1][1] = 'EMPTY';
+  const frontier: Pos[] = [...cellNeighbors(grid, { x: 1, y: 1 })];
+
+  while (frontier.length > 0) {
+    const cell = frontier.splice(randomInt(rng, frontier.length), 1)[0];
+    if (grid[cell.y][cell.x] !== 'WALL') continue;
+    const carved = cellNeighbors(grid, cell).filter(p => grid[p.y][p.x] === 'EMPTY');
+    carveBetween(grid, carved[randomInt(rng, carved.length)], cell);
+    frontier.push(...cellNeighbors(grid, cell).filter(p => grid[p.y][p.x] === 'WALL'));
+  }
+  return grid;
+};
+
+// Chambers smaller than this (in both directions) become rooms
+const MIN_CHAMBER = 6;
+
+// Recursive division: walls on even lines, one door on an odd cell per wall
+const rooms = (width: number, height: number, rng: Rng) => {
+  const { grid } = createGrid(width, height);
+  grid[1][1] = 'EMPTY';
+  grid[height - 2][width - 2] = 'EMPTY';
+
+  const evenBetween = (lo: number, hi: number) => {
+    const out: number[] = [];
+    for (let v = lo + 2; v <= hi - 2; v++) if (v % 2 === 0) out.push(v);
+    return out;
+  };
+  const oddBetween = (lo: number, hi: number) => {
+    const out: number[] = [];
+    for (let v = lo; v <= hi; v++) if (v % 2 === 1) out.push(v);
+    return out;
+  };
+
+  const divide = (x0: number, y0: number, x1: number, y1: number) => {
+    const w = x1 - x0 + 1;
+    const h = y1 - y0 + 1;
+    if (w < MIN_CHAMBER && h < MIN_CHAMBER) return;
+
+    const rows = evenBetween(y0, y1);
+    const cols = evenBetween(x0, x1);
+    const horizontal = rows.length > 0 && (cols.length === 0 || h > w || (h === w && rng() < 0.5));
+
+    if (horizontal) {
+      const y = rows[randomInt(rng, rows.length)];
+      const doors = oddBetween(x0, x1);
+      const door = doors[randomInt(rng, doors.length)];
+      for (let x = x0; x <= x1; x++) if (x !== door) grid[y][x] = 'WALL';
+      divide(x0, y0, x1, y - 1);
+      divide(x0, y + 1, x1, y1);
+    } else if (cols.length > 0) {
+      const x = cols[randomInt(rng, cols.length)];
+      const doors = oddBetween(y0, y1);
+      const door = doors[randomInt(rng, doors.length)];
+      for (let y = y0; y <= y1; y++) if (y !== door) grid[y][x] = 'WALL';
+      divide(x0, y0, x - 1, y1);
+      divide(x + 1, y0, x1, y1);
+    }
+  };
+
+  divide(1, 1, width - 2, height - 2);
+  return grid;
+};
+
+// Independent coin flip per interior cell; the one that needs repairing most
+const randomObstacles = (width: number, height: number, rng: Rng, density: number) => {
+  const { grid } = createGrid(width, height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      grid[y][x] = rng() < density ? 'WALL' : 'EMPTY';
+    }
+  }
+  return grid;
+};
+
+// --- Generate, place start/goal, then guarantee the goal is reachable ---
+export const generateMaze = (options: GenerateOptions): GenerateResult => {
+  const { generator, width, height, seed, density } = options;
+  const rng = createRng(seed);
+
+  const grid =
+    generator === 'BACKTRACKER' ? backtracker(width, height, rng)
+    : generator === 'PRIM' ? prim(width, height, rng)
+    : generator === 'ROOMS' ? rooms(width, height, rng)
+    : randomObstacles(width, height, rng, density);
+
+  const clamp = (v: number, size: number) => Math.min(Math.max(v, 1), size - 2);
+  const start = { x: clamp(options.start.x, width), y: clamp(options.start.y, height) };
+  const goal = { x: clamp(options.goal.x, width), y: clamp(options.goal.y, height) };
+  grid[start.y][start.x] = 'START';
+  grid[goal.y][goal.x] = 'GOAL';
+
+  // Unsolvable: knock down the fewest walls that connect start and goal
+  let repairedWalls = 0;
+  if (!findPath(grid, start, goal)) {
+    const blocking = wallsBlockingPath(grid, start, goal);
+    blocking.forEach(p => { grid[p.y][p.x] = 'EMPTY'; });
+    repairedWalls = blocking.length;
+  }
+
+  return { layout: { grid, start, goal }, repairedWalls };
+};
@@ -0,0 +1,117 @@
+import type { EnvConfig, Pos, Transition } from './gridWorld';
+import { createVisitCounts, type VisitCounts } from './agent';
+import type { QTables } from './algorithms';
+
+// --- Objectives: extra goals and checkpoints ---
+// Both live beside the grid rather than in it, so maze codes, the oracle and
+// the DP planners keep seeing one GOAL cell. Only the grid car's learning loop
+// applies them (see applyObjectives).
+export type ExtraGoal = { pos: Pos; reward: number };
+
+export type Objectives = {
+  goals: ExtraGoal[];       // Further exits, each ending the episode with its own reward
+  checkpoints: Pos[];       // Collected in this order before any goal counts
+  checkpointReward: number; // Paid on top of the step cost for each checkpoint
+};
+
+export const NO_OBJECTIVES: Objectives = { goals: [], checkpoints: [], checkpointReward: 10 };
+
+export const MAX_EXTRA_GOALS = 4;
+export const MAX_CHECKPOINTS = 4;
+
+const sameCell = (a: Pos, b: Pos) => a.x === b.x && a.y === b.y;
+
+export const hasObjectives = ({ goals, checkpoints }: Objectives) => goals.length > 0 || checkpoints.length > 0;
+
+export const extraGoalAt = (objectives: Objectives, p: Pos) => objectives.goals.find(g => sameCell(g.pos, p));
+
+// Position in the collection order, -1 if p is not a checkpoint
+export const checkpointIndex = (objectives: Objectives, p: Pos) => objectives.checkpoints.findIndex(c => sameCell(c, p));
+
+export const isObjectiveAt = (objectives: Objectives, p: Pos) => !!extraGoalAt(objectives, p) || checkpointIndex(objectives, p) >= 0;
+
+// --- Editing ---
+// A click adds one (at the end of the order, for checkpoints) or removes the one already there
+export const toggleExtraGoal = (objectives: Objectives, p: Pos, reward: number): Objectives => {
+  if (extraGoalAt(objectives, p)) return { ...objectives, goals: objectives.goals.filter(g => !sameCell(g.pos, p)) };
+  if (objectives.goals.length >= MAX_EXTRA_GOALS || isObjectiveAt(objectives, p)) return objectives;
+  return { ...objectives, goals: [...objectives.goals, { pos: p, reward }] };
+};
+
+export const toggleCheckpoint = (objectives: Objectives, p: Pos): Objectives => {
+  if (checkpointIndex(objectives, p) >= 0) return { ...objectives, checkpoints: objectives.checkpoints.filter(c => !sameCell(c, p)) };
+  if (objectives.checkpoints.length >= MAX_CHECKPOINTS || isObjectiveAt(objectives, p)) return objectives;
+  return { ...objectives, checkpoints: [...objectives.checkpoints, p] };
+};
+
+// Painted over, or outside a resized grid
+export const withoutObjectivesAt = (objectives: Objectives, keep: (p: Pos) => boolean): Objectives => ({
+  ...objectives,
+  goals: objectives.goals.filter(g => keep(g.pos)),
+  checkpoints: objectives.checkpoints.filter(keep),
+});
+
+// --- Checkpoint state ---
+// The car's state is (x, y, mask), bit i of mask set once checkpoint i is
+// collected. Checkpoints are collected in order, so a mask is always a run of
+// low bits and its bit count says which layer of Q-values it uses.
+export const fullMask = ({ checkpoints }: Objectives) => (1 << checkpoints.length) - 1;
+
+export const collectedCount = (mask: number) => {
+  let count = 0;
+  for (let m = mask; m; m >>= 1) count += m & 1;
+  return count;
+};
+
+// Q-values and visit counts for the masks with at least one checkpoint
+// collected (layer k - 1 for k collected); the agent's own tables are layer 0
+export type CheckpointLayers = { tables: QTables[]; visits: VisitCounts[] };
+
+export const createLayers = (objectives: Objectives, fresh: () => QTables, width: number, height: number): CheckpointLayers | null =>
+  objectives.checkpoints.length === 0 ? null : {
+    tables: objectives.checkpoints.map(() => fresh()),
+    visits: objectives.checkpoints.map(() => createVisitCounts(width, height)),
+  };
+
+// The tables and visits a given mask uses
+export const layerFor = (base: QTables, visits: VisitCounts, layers: CheckpointLayers | null, mask: number) => {
+  const layer = collectedCount(mask);
+  return layers && layer > 0 ? { tables: layers.tables[layer - 1], visits: layers.visits[layer - 1] } : { tables: base, visits };
+};
+
+// Every layer stacked into one tall grid, so (x, y, mask) is the ordinary cell
+// (x, y + layer * height) and the TD update and Dyna model need no changes.
+// Rows are shared, not copied: updates through the stack land in the layers.
+export const stackLayers = (base: QTables, visits: VisitCounts, layers: CheckpointLayers) => ({
+  tables: {
+    qTable: [base.qTable, ...layers.tables.map(t => t.qTable)].flat(),
+    qTableB: base.qTableB && [base.qTableB, ...layers.tables.map(t => t.qTableB!)].flat(),
+  },
+  visits: [visits, ...layers.visits].flat(),
+});
+
+export const stackedPos = ({ x, y }: Pos, mask: number, height: number): Pos => ({ x, y: y + collectedCount(mask) * height });
+
+// --- Applying objectives to a grid transition ---
+// The next checkpoint in line is collected on entry. Until all are collected
+// the goal is ordinary floor; after that an extra goal ends the episode with
+// its own reward.
+export const applyObjectives = (
+  t: Transition,
+  objectives: Objectives,
+  mask: number,
+  env: EnvConfig,
+): Transition & { mask: number } => {
+  if (!hasObjectives(objectives) || t.hitWall) return { ...t, mask };
+
+  const nextIndex = collectedCount(mask);
+  const collects = nextIndex < objectives.checkpoints.length && sameCell(objectives.checkpoints[nextIndex], t.next);
+  const nextMask = collects ? mask | (1 << nextIndex) : mask;
+  const reward = collects ? t.reward + objectives.checkpointReward : t.reward;
+  const ready = nextMask === fullMask(objectives);
+
+  const extra = extraGoalAt(objectives, t.next);
+  if (extra && ready) return { ...t, mask: nextMask, reward: extra.reward, done: true, reachedGoal: true };
+  if (t.reachedGoal && !ready) return { ...t, mask: nextMask, reward: env.rewards.STEP, done: false, reachedGoal: false };
+  return { ...t, mask: nextMask, reward };
+};
@@ -0,0 +1,108 @@
+import { ACTIONS, getOutcomes, isStochastic, isTerminal, resolveMove, type EnvConfig, type Grid, type Pos } from './gridWorld';
+import { getFirstBestAction, type QTable } from './agent';
+import { isDecisionState, solveQStar } from './dynamicProgramming';
+import { findPath } from './pathfinding';
+
+// --- Optimal-Path Oracle ---
+// Solves the grid exactly from its known model so the learner can be graded.
+export type OracleMethod = 'BFS' | 'VALUE_ITERATION';
+
+export type OracleSolution = {
+  qStar: QTable;
+  path: Pos[] | null;    // Start to goal, null if the goal is unreachable
+  method: OracleMethod;  // How the path was found
+  reachable: Pos[];      // Decision states the agent can visit and leave by ending the episode
+};
+
+export type OracleMetrics = {
+  greedyLength: number | null;  // Steps of the learned greedy path, null if it never arrives
+  optimalLength: number | null;
+  suboptimalStates: number;     // Greedy action is worse than the best action under Q*
+  maxQError: number;            // Max |Q - Q*| over reachable states
+};
+
+// Q* values this close count as a tie
+const TIE_TOLERANCE = 1e-6;
+
+const sameCell = (a: Pos, b: Pos) => a.x === b.x && a.y === b.y;
+
+// Every decision state reachable from the start, counting slips
+const reachableStates = (grid: Grid, start: Pos, env: EnvConfig) => {
+  const width = grid[0].length;
+  const seen = new Set([start.y * width + start.x]);
+  const queue = [start];
+  for (let head = 0; head < queue.length; head++) {
+    const pos = queue[head];
+    if (!isDecisionState(grid, pos)) continue;
+    for (let a = 0; a < ACTIONS.length; a++) {
+      for (const { transition } of getOutcomes(grid, pos, a, env)) {
+        const { next, done } = transition;
+        if (done && !isTerminal(grid[next.y][next.x])) continue;
+        const id = next.y * width + next.x;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        queue.push(next);
+      }
+    }
+  }
+  return queue.filter(p => isDecisionState(grid, p));
+};
+
+// Follow the greedy action of `qValuesAt` along intended moves (no slips).
+// Ties go to the first action so the metrics don't flicker.
+// Returns the visited cells, or null on a loop or dead end.
+export const greedyPath = (grid: Grid, start: Pos, goal: Pos, env: EnvConfig, qValuesAt: (pos: Pos) => number[]) => {
+  const path = [start];
+  const seen = new Set([`${start.x},${start.y}`]);
+  let pos = start;
+  while (!sameCell(pos, goal)) {
+    if (!isDecisionState(grid, pos)) return null;
+    const { next, done } = resolveMove(grid, pos, getFirstBestAction(qValuesAt(pos)), env);
+    const id = `${next.x},${next.y}`;
+    if (seen.has(id) || (done && !sameCell(next, goal))) return null;
+    seen.add(id);
+    path.push(next);
+    pos = next;
+  }
+  return path;
+};
+
+// Deterministic mazes with a uniform step cost: the BFS shortest path is optimal.
+// Otherwise (ice slips or mud) the path follows the greedy Q* policy.
+export const solveOracle = (grid: Grid, start: Pos, goal: Pos, env: EnvConfig, gamma: number): OracleSolution => {
+  const { q: qStar, solvable } = solveQStar(grid, env, gamma);
+  const canFinish = new Set(solvable.map(p => `${p.x},${p.y}`));
+  const uniformCost = env.rewards.MUD === env.rewards.STEP || !grid.some(row => row.includes('MUD'));
+  const method: OracleMethod = !isStochastic(grid, env) && uniformCost ? 'BFS' : 'VALUE_ITERATION';
+  const path = method === 'BFS'
+    ? findPath(grid, start, goal, env)
+    : greedyPath(grid, start, goal, env, p => qStar[p.y][p.x]);
+  const reachable = reachableStates(grid, start, env).filter(p => canFinish.has(`${p.x},${p.y}`));
+  return { qStar, path, method, reachable };
+};
+
+// Grade a learned Q-function against the oracle
+export const compareToOracle = (
+  solution: OracleSolution,
+  grid: Grid,
+  start: Pos,
+  goal: Pos,
+  env: EnvConfig,
+  qValuesAt: (pos: Pos) => number[],
+): OracleMetrics => {
+  let suboptimalStates = 0;
+  let maxQError = 0;
+  for (const pos of solution.reachable) {
+    const qs = qValuesAt(pos);
+    const star = solution.qStar[pos.y][pos.x];
+    if (star[getFirstBestAction(qs)] < Math.max(...star) - TIE_TOLERANCE) suboptimalStates++;
+    qs.forEach((q, a) => { maxQError = Math.max(maxQError, Math.abs(q - star[a])); });
+  }
+  const greedy = greedyPath(grid, start, goal, env, qValuesAt);
+  return {
+    greedyLength: greedy ? greedy.length - 1 : null,
+    optimalLength: solution.path ? solution.path.length - 1 : null,
+    suboptimalStates,
+    maxQError,
+  };
+};
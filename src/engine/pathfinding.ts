@@ -0,0 +1,64 @@
+import { ACTIONS, DEFAULT_ENV, gridHeight, gridWidth, isTerminal, resolveMove, type EnvConfig, type Grid, type Pos } from './gridWorld';
+
+const key = (p: Pos) => `${p.x},${p.y}`;
+
+// --- Reachability: BFS over the intended (non-slipping) moves ---
+// Follows one-way tiles and teleporters; pits and the goal are not expanded.
+// Returns the shortest list of cells from start to goal, or null.
+export const findPath = (grid: Grid, start: Pos, goal: Pos, env: EnvConfig = DEFAULT_ENV): Pos[] | null => {
+  const cameFrom = new Map<string, Pos | null>([[key(start), null]]);
+  const queue: Pos[] = [start];
+
+  for (let head = 0; head < queue.length; head++) {
+    const pos = queue[head];
+    if (pos.x === goal.x && pos.y === goal.y) {
+      const path: Pos[] = [];
+      for (let p: Pos | null = pos; p; p = cameFrom.get(key(p)) ?? null) path.push(p);
+      return path.reverse();
+    }
+    if (isTerminal(grid[pos.y][pos.x]) && head > 0) continue;
+
+    for (let dir = 0; dir < ACTIONS.length; dir++) {
+      const { next, hitWall } = resolveMove(grid, pos, dir, env);
+      if (hitWall || cameFrom.has(key(next))) continue;
+      cameFrom.set(key(next), pos);
+      queue.push(next);
+    }
+  }
+  return null;
+};
+
+// --- Repair: the path from start to goal that crosses the fewest walls ---
+// 0-1 BFS where entering a wall costs 1; the outer ring is never opened.
+// Returns the walls that must go.
+export const wallsBlockingPath = (grid: Grid, start: Pos, goal: Pos): Pos[] => {
+  const width = gridWidth(grid);
+  const height = gridHeight(grid);
+  const index = (p: Pos) => p.y * width + p.x;
+  const dist = new Map<number, number>([[index(start), 0]]);
+  const cameFrom = new Map<number, Pos>();
+  const deque: Pos[] = [start];
+
+  while (deque.length > 0) {
+    const pos = deque.shift()!;
+    if (pos.x === goal.x && pos.y === goal.y) break;
+    const d = dist.get(index(pos))!;
+    for (const { dx, dy } of ACTIONS) {
+      const next = { x: pos.x + dx, y: pos.y + dy };
+      if (next.x < 1 || next.y < 1 || next.x > width - 2 || next.y > height - 2) continue;
+      const cost = grid[next.y][next.x] === 'WALL' ? 1 : 0;
+      const known = dist.get(index(next));
+      if (known !== undefined && known <= d + cost) continue;
+      dist.set(index(next), d + cost);
+      cameFrom.set(index(next), pos);
+      if (cost === 0) deque.unshift(next);
+      else deque.push(next);
+    }
+  }
+
+  const walls: Pos[] = [];
+  for (let p: Pos | undefined = goal; p && index(p) !== index(start); p = cameFrom.get(index(p))) {
+    if (grid[p.y][p.x] === 'WALL') walls.push(p);
+  }
+  return walls;
+};
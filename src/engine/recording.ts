@@ -0,0 +1,47 @@
+import type { Grid, Pos } from './gridWorld';
+import type { EpisodeOutcome } from './history';
+import { encodeMaze } from './session';
+
+// --- Episode recordings for replay ---
+export type RecordedStep = {
+  state: Pos;
+  action: number;
+  reward: number;
+  next: Pos;
+};
+
+export type EpisodeRecording = {
+  episode: number;
+  outcome: EpisodeOutcome;
+  return: number;
+  steps: RecordedStep[];
+};
+
+// Memory caps: recordings kept and steps kept across all of them
+export const MAX_RECORDINGS = 100;
+export const MAX_RECORDED_STEPS = 200_000;
+
+const totalSteps = (recordings: EpisodeRecording[]) => recordings.reduce((n, r) => n + r.steps.length, 0);
+
+// Append a recording. Over either cap, every second recording between the
+// first and the newest is dropped, so the archive keeps spanning the whole
+// run at coarser spacing instead of forgetting the early episodes.
+export const addRecording = (recordings: EpisodeRecording[], recording: EpisodeRecording) => {
+  let next = [...recordings, recording];
+  while (next.length > 2 && (next.length > MAX_RECORDINGS || totalSteps(next) > MAX_RECORDED_STEPS)) {
+    next = next.filter((_, i, all) => i % 2 === 0 || i === all.length - 1);
+  }
+  return next;
+};
+
+// Where the car is after `frame` steps of a recording
+export const replayPosition = (recording: EpisodeRecording, frame: number): Pos =>
+  frame === 0 ? recording.steps[0].state : recording.steps[frame - 1].next;
+
+// Cells visited up to `frame`, in order (the replay trail)
+export const replayTrail = (recording: EpisodeRecording, frame: number): Pos[] =>
+  [recording.steps[0].state, ...recording.steps.slice(0, frame).map(s => s.next)];
+
+// Export file: the recordings plus the maze they were recorded on
+export const recordingsToJson = (grid: Grid, recordings: EpisodeRecording[]) =>
+  JSON.stringify({ maze: encodeMaze(grid), recordings });
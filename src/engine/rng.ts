@@ -0,0 +1,22 @@
+// --- Seeded PRNG ---
+// Mulberry32: tiny, fast and good enough for exploration noise.
+// Every source of randomness in the engine goes through an Rng so that
+// a run can be reproduced exactly from its seed.
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Integer in [0, n)
+export const randomInt = (rng: Rng, n: number) => Math.floor(rng() * n);
+
+// Derive a fresh 32-bit seed from an existing stream (e.g. to hand to a worker)
+export const nextSeed = (rng: Rng) => randomInt(rng, 4294967296);
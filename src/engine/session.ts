@@ -0,0 +1,332 @@
+import {
+  DEFAULT_ENV,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+  gridHeight,
+  gridWidth,
+  type CellType,
+  type EnvConfig,
+  type Grid,
+  type MazeLayout,
+  type Pos,
+  type RewardKey,
+} from './gridWorld';
+import type { QTable } from './agent';
+import type { RunEvent } from './history';
+import { ALGORITHMS, type Algorithm, type QTables } from './algorithms';
+import { SCHEDULES, STRATEGIES, type Exploration } from './exploration';
+import { MAX_PLANNING_STEPS, type Planning } from './dyna';
+import { MAX_CHECKPOINTS, MAX_EXTRA_GOALS, type Objectives } from './objectives';
+
+// --- Session file format ---
+// Everything needed to resume a run: maze, hyperparameters and learned values.
+// Bump SESSION_VERSION whenever the shape changes.
+export const SESSION_VERSION = 1;
+
+export type Session = {
+  version: typeof SESSION_VERSION;
+  width: number;
+  height: number;
+  cells: string[]; // One string per row, see CELL_CODES
+  start: Pos;
+  goal: Pos;
+  hyperparams: {
+    alpha: number;
+    gamma: number;
+    epsilon: number;
+    useHeuristic: boolean;
+    algorithm: Algorithm;
+    seed: number;
+    exploration: Exploration;
+    planning: Planning; // The Dyna-Q model itself is not saved
+  };
+  environment: EnvConfig;
+  objectives: Objectives;
+  episode: number;
+  runLog: RunEvent[]; // Settings changed during the run
+  qTable: QTable;
+  qTableB: QTable | null;
+  checkpointTables: QTables[]; // One per checkpoint, for the states after collecting it
+};
+
+export type SessionState = MazeLayout & Omit<Session, 'version' | 'width' | 'height' | 'cells' | 'start' | 'goal'>;
+
+// Thrown for anything that is not a usable session or maze code
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// --- Cell encoding (shared by session files and share URLs) ---
+const CELL_CODES: Record<CellType, string> = {
+  EMPTY: '.',
+  WALL: 'W',
+  START: 'S',
+  GOAL: 'G',
+  MUD: 'm',
+  ICE: 'i',
+  PIT: 'p',
+  ONE_WAY_UP: 'U',
+  ONE_WAY_RIGHT: 'R',
+  ONE_WAY_DOWN: 'D',
+  ONE_WAY_LEFT: 'L',
+  TELEPORT_A: 'A',
+  TELEPORT_B: 'B',
+  TELEPORT_C: 'C',
+};
+
+const CODE_CELLS = Object.fromEntries(
+  Object.entries(CELL_CODES).map(([type, code]) => [code, type as CellType]),
+);
+
+const encodeRow = (row: CellType[]) => row.map(c => CELL_CODES[c]).join('');
+
+const decodeRow = (row: string, y: number) => [...row].map((code, x) => {
+  const type = CODE_CELLS[code];
+  if (!type) throw new SessionError(`Unknown cell code "${code}" at row ${y}, column ${x}`);
+  return type;
+});
+
+// Locate START/GOAL and check there is exactly one of each
+const findMarkers = (grid: Grid) => {
+  const found: Partial<Record<'START' | 'GOAL', Pos[]>> = {};
+  grid.forEach((row, y) => row.forEach((type, x) => {
+    if (type === 'START' || type === 'GOAL') (found[type] ??= []).push({ x, y });
+  }));
+  for (const type of ['START', 'GOAL'] as const) {
+    const count = found[type]?.length ?? 0;
+    if (count !== 1) throw new SessionError(`Maze must contain exactly one ${type} cell, found ${count}`);
+  }
+  return { start: found.START![0], goal: found.GOAL![0] };
+};
+
+// --- Validation helpers ---
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const expectNumber = (obj: Record<string, unknown>, key: string, min = -Infinity, max = Infinity) => {
+  const v = obj[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) throw new SessionError(`"${key}" must be a number`);
+  if (v < min || v > max) throw new SessionError(`"${key}" must be between ${min} and ${max}, got ${v}`);
+  return v;
+};
+
+const expectInteger = (obj: Record<string, unknown>, key: string, min = 0, max = Infinity) => {
+  const v = expectNumber(obj, key, min, max);
+  if (!Number.isInteger(v)) throw new SessionError(`"${key}" must be an integer, got ${v}`);
+  return v;
+};
+
+const expectPos = (v: unknown, key: string, width: number, height: number): Pos => {
+  if (!isRecord(v)) throw new SessionError(`"${key}" must be an {x, y} object`);
+  return { x: expectInteger(v, 'x', 0, width - 1), y: expectInteger(v, 'y', 0, height - 1) };
+};
+
+const expectQTable = (v: unknown, key: string, width: number, height: number): QTable => {
+  const fail = (detail: string) => new SessionError(`"${key}" ${detail}`);
+  if (!Array.isArray(v) || v.length !== height) throw fail(`must have ${height} rows`);
+  return v.map((row, y) => {
+    if (!Array.isArray(row) || row.length !== width) throw fail(`row ${y} must have ${width} cells`);
+    return row.map((qs, x) => {
+      if (!Array.isArray(qs) || qs.length !== 4 || !qs.every(q => typeof q === 'number' && Number.isFinite(q))) {
+        throw fail(`cell (${x}, ${y}) must hold 4 finite Q-values`);
+      }
+      return [...qs] as number[];
+    });
+  });
+};
+
+// --- Session <-> app state ---
+export const createSession = (state: SessionState): Session => ({
+  version: SESSION_VERSION,
+  width: gridWidth(state.grid),
+  height: gridHeight(state.grid),
+  cells: state.grid.map(encodeRow),
+  start: state.start,
+  goal: state.goal,
+  hyperparams: state.hyperparams,
+  environment: state.environment,
+  objectives: state.objectives,
+  episode: state.episode,
+  runLog: state.runLog,
+  qTable: state.qTable,
+  qTableB: state.qTableB,
+  checkpointTables: state.checkpointTables,
+});
+
+// Validate untrusted JSON
+export const parseSession = (json: string): SessionState => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SessionError('File is not valid JSON');
+  }
+  if (!isRecord(data)) throw new SessionError('Session must be a JSON object');
+  if (data.version !== SESSION_VERSION) {
+    throw new SessionError(`Unsupported session version ${JSON.stringify(data.version)} (expected ${SESSION_VERSION})`);
+  }
+
+  const width = expectInteger(data, 'width', MIN_GRID_SIZE, MAX_GRID_SIZE);
+  const height = expectInteger(data, 'height', MIN_GRID_SIZE, MAX_GRID_SIZE);
+
+  const cells = data.cells;
+  if (!Array.isArray(cells) || cells.length !== height) throw new SessionError(`"cells" must have ${height} rows`);
+  const grid = cells.map((row, y) => {
+    if (typeof row !== 'string' || row.length !== width) throw new SessionError(`"cells" row ${y} must be a string of ${width} cells`);
+    return decodeRow(row, y);
+  });
+
+  const start = expectPos(data.start, 'start', width, height);
+  const goal = expectPos(data.goal, 'goal', width, height);
+  const markers = findMarkers(grid);
+  if (markers.start.x !== start.x || markers.start.y !== start.y) throw new SessionError('"start" does not match the START cell');
+  if (markers.goal.x !== goal.x || markers.goal.y !== goal.y) throw new SessionError('"goal" does not match the GOAL cell');
+
+  const hp = data.hyperparams;
+  if (!isRecord(hp)) throw new SessionError('"hyperparams" must be an object');
+  if (typeof hp.useHeuristic !== 'boolean') throw new SessionError('"useHeuristic" must be true or false');
+  const algorithm = ALGORITHMS.find(a => a.id === hp.algorithm)?.id;
+  if (!algorithm) throw new SessionError(`Unknown algorithm ${JSON.stringify(hp.algorithm)}`);
+
+  const ex = hp.exploration;
+  if (!isRecord(ex)) throw new SessionError('"exploration" must be an object');
+  const strategy = STRATEGIES.find(s => s.id === ex.strategy)?.id;
+  if (!strategy) throw new SessionError(`Unknown exploration strategy ${JSON.stringify(ex.strategy)}`);
+  const schedule = SCHEDULES.find(s => s.id === ex.schedule)?.id;
+  if (!schedule) throw new SessionError(`Unknown decay schedule ${JSON.stringify(ex.schedule)}`);
+  const exploration: Exploration = {
+    strategy,
+    schedule,
+    rate: expectNumber(ex, 'rate', 0, 1),
+    stepEvery: expectInteger(ex, 'stepEvery', 1),
+    floor: expectNumber(ex, 'floor', 0, 1),
+    optimisticInit: ex.optimisticInit === null ? null : expectNumber(ex, 'optimisticInit'),
+  };
+
+  const pl = hp.planning;
+  if (!isRecord(pl)) throw new SessionError('"planning" must be an object');
+  const planning: Planning = {
+    steps: expectInteger(pl, 'steps', 0, MAX_PLANNING_STEPS),
+    kappa: pl.kappa === null ? null : expectNumber(pl, 'kappa', 0),
+  };
+
+  const hyperparams = {
+    alpha: expectNumber(hp, 'alpha', 0, 1),
+    gamma: expectNumber(hp, 'gamma', 0, 1),
+    epsilon: expectNumber(hp, 'epsilon', 0, 1),
+    useHeuristic: hp.useHeuristic,
+    algorithm,
+    seed: expectInteger(hp, 'seed', 0, 4294967295),
+    exploration,
+    planning,
+  };
+
+  const env = data.environment;
+  if (!isRecord(env)) throw new SessionError('"environment" must be an object');
+  const rewards = env.rewards;
+  if (!isRecord(rewards)) throw new SessionError('"rewards" must be an object');
+  if (env.maxSteps !== null) expectInteger(env, 'maxSteps', 1);
+  if (typeof env.wallsTerminal !== 'boolean') throw new SessionError('"wallsTerminal" must be true or false');
+  const environment: EnvConfig = {
+    rewards: Object.fromEntries(
+      (Object.keys(DEFAULT_ENV.rewards) as RewardKey[]).map(key => [key, expectNumber(rewards, key)]),
+    ) as EnvConfig['rewards'],
+    slipProbability: expectNumber(env, 'slipProbability', 0, 1),
+    maxSteps: env.maxSteps as number | null,
+    wallsTerminal: env.wallsTerminal,
+  };
+
+  const obj = data.objectives;
+  if (!isRecord(obj)) throw new SessionError('"objectives" must be an object');
+  if (!Array.isArray(obj.goals) || obj.goals.length > MAX_EXTRA_GOALS) throw new SessionError(`"goals" must be an array of at most ${MAX_EXTRA_GOALS}`);
+  if (!Array.isArray(obj.checkpoints) || obj.checkpoints.length > MAX_CHECKPOINTS) {
+    throw new SessionError(`"checkpoints" must be an array of at most ${MAX_CHECKPOINTS}`);
+  }
+  const objectives: Objectives = {
+    goals: obj.goals.map((g, i) => {
+      if (!isRecord(g)) throw new SessionError(`"goals" entry ${i} must be an object`);
+      return { pos: expectPos(g.pos, 'pos', width, height), reward: expectNumber(g, 'reward') };
+    }),
+    checkpoints: obj.checkpoints.map((c, i) => expectPos(c, `checkpoints[${i}]`, width, height)),
+    checkpointReward: expectNumber(obj, 'checkpointReward'),
+  };
+
+  if (!Array.isArray(data.runLog)) throw new SessionError('"runLog" must be an array');
+  const runLog = data.runLog.map((event, i): RunEvent => {
+    const isValue = (v: unknown) => v === null || typeof v === 'number' || typeof v === 'boolean';
+    if (!isRecord(event) || typeof event.setting !== 'string' || !isValue(event.from) || !isValue(event.to)) {
+      throw new SessionError(`"runLog" entry ${i} must have a setting and from/to values`);
+    }
+    return { episode: expectInteger(event, 'episode'), setting: event.setting, from: event.from as RunEvent['from'], to: event.to as RunEvent['to'] };
+  });
+
+  const qTable = expectQTable(data.qTable, 'qTable', width, height);
+  const qTableB = data.qTableB === null || data.qTableB === undefined ? null : expectQTable(data.qTableB, 'qTableB', width, height);
+  if (algorithm === 'DOUBLE_Q' && !qTableB) throw new SessionError('Double Q-learning sessions need "qTableB"');
+
+  const layers = data.checkpointTables;
+  if (!Array.isArray(layers) || layers.length !== objectives.checkpoints.length) {
+    throw new SessionError(`"checkpointTables" must hold one entry per checkpoint (${objectives.checkpoints.length})`);
+  }
+  const checkpointTables = layers.map((layer, i): QTables => {
+    if (!isRecord(layer)) throw new SessionError(`"checkpointTables" entry ${i} must be an object`);
+    return {
+      qTable: expectQTable(layer.qTable, `checkpointTables[${i}].qTable`, width, height),
+      qTableB: algorithm === 'DOUBLE_Q' ? expectQTable(layer.qTableB, `checkpointTables[${i}].qTableB`, width, height) : null,
+    };
+  });
+
+  return {
+    grid,
+    start,
+    goal,
+    hyperparams,
+    environment,
+    objectives,
+    episode: expectInteger(data, 'episode'),
+    runLog,
+    qTable,
+    qTableB: algorithm === 'DOUBLE_Q' ? qTableB : null,
+    checkpointTables,
+  };
+};
+
+// --- Share URL: run-length encoded maze layout ---
+// "15x15:16W13.2W..." - a count (omitted when 1) followed by a cell code, rows concatenated.
+export const encodeMaze = (grid: Grid) => {
+  const flat = grid.map(encodeRow).join('');
+  let out = `${gridWidth(grid)}x${gridHeight(grid)}:`;
+  for (let i = 0; i < flat.length;) {
+    let run = 1;
+    while (flat[i + run] === flat[i]) run++;
+    out += (run > 1 ? run : '') + flat[i];
+    i += run;
+  }
+  return out;
+};
+
+export const decodeMaze = (code: string): MazeLayout => {
+  const match = /^(\d+)x(\d+):(.*)$/.exec(code);
+  if (!match) throw new SessionError('Maze code must look like "<width>x<height>:<cells>"');
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  if ([width, height].some(v => v < MIN_GRID_SIZE || v > MAX_GRID_SIZE)) {
+    throw new SessionError(`Maze is ${width}x${height}, sides must be between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE}`);
+  }
+
+  let flat = '';
+  const cells = width * height;
+  for (const [, count, cell] of match[3].matchAll(/(\d*)(\D)/g)) {
+    // Checked before expanding, so a huge run count cannot allocate a huge string
+    const run = count ? Number(count) : 1;
+    if (run > cells - flat.length) throw new SessionError(`Maze code describes more than ${cells} cells`);
+    flat += cell.repeat(run);
+  }
+  if (flat.length !== cells) throw new SessionError(`Maze code must describe ${cells} cells`);
+
+  const grid: Grid = [];
+  for (let y = 0; y < height; y++) grid.push(decodeRow(flat.slice(y * width, (y + 1) * width), y));
+  return { grid, ...findMarkers(grid) };
+};
@@ -0,0 +1,137 @@
+import type { EnvConfig, Grid, Pos } from './gridWorld';
+import { createVisitCounts, initQTable, type Hyperparams, type VisitCounts } from './agent';
+import { getQValues, type Algorithm, type QTables } from './algorithms';
+import { NOT_CONVERGED, updateConvergence, type Convergence } from './history';
+import { greedyPath } from './oracle';
+import { decayExploration } from './exploration';
+import { NO_OBJECTIVES, type CheckpointLayers, type Objectives } from './objectives';
+import { createRng, type Rng } from './rng';
+import { startEpisode, stepAgent, type EpisodeState, type StepResult } from './trainer';
+
+// --- Multi-agent mode: extra cars learning on the same grid ---
+// Car 1 is the main agent; cars 2..MAX_CARS are the squad.
+export const MIN_CARS = 2;
+export const MAX_CARS = 8;
+
+export type SquadSetup = {
+  enabled: boolean;
+  count: number;         // Cars including the main agent
+  sharedTable: boolean;  // All cars write into the main agent's Q-Table
+};
+
+export const DEFAULT_SQUAD: SquadSetup = { enabled: false, count: 4, sharedTable: true };
+
+export const CAR_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#4b5563'];
+
+export type CarStats = {
+  episodes: number;
+  goals: number;
+  lastReturn: number | null;
+  convergence: Convergence;
+};
+
+export const NEW_CAR_STATS: CarStats = { episodes: 0, goals: 0, lastReturn: null, convergence: NOT_CONVERGED };
+
+export type SquadCar = {
+  id: number;              // 2..MAX_CARS
+  color: string;
+  params: Hyperparams;     // Epsilon decays per car
+  tables: QTables | null;  // Own estimates, or null to write into the shared table
+  visits: VisitCounts;
+  layerVisits: VisitCounts[]; // Per checkpoint layer, for cars on the shared table
+  rng: Rng;
+  state: EpisodeState;
+  stats: CarStats;
+};
+
+export type SquadContext = {
+  grid: Grid;
+  start: Pos;
+  goal: Pos;
+  env: EnvConfig;
+  shared: QTables;      // The main agent's tables
+  algorithm: Algorithm; // The main agent's update rule, also used by cars on the shared table
+  useHeuristic: boolean;
+  objectives: Objectives;
+  layers: CheckpointLayers | null; // The main agent's checkpoint layers, shared like its tables
+};
+
+// Each car draws from its own stream so adding a car doesn't change the others' runs
+const carRng = (seed: number, id: number) => createRng(seed + id * 7919);
+
+const freshTables = ({ grid, goal, useHeuristic }: SquadContext, { algorithm, exploration }: Hyperparams): QTables => {
+  const width = grid[0].length;
+  const height = grid.length;
+  return {
+    qTable: initQTable(width, height, useHeuristic, goal, exploration.optimisticInit),
+    qTableB: algorithm === 'DOUBLE_Q' ? initQTable(width, height, useHeuristic, goal, exploration.optimisticInit) : null,
+  };
+};
+
+export const createCar = (id: number, params: Hyperparams, ctx: SquadContext, sharedTable: boolean, seed: number): SquadCar => ({
+  id,
+  color: CAR_COLORS[(id - 1) % CAR_COLORS.length],
+  params: { ...params },
+  tables: sharedTable ? null : freshTables(ctx, params),
+  visits: createVisitCounts(ctx.grid[0].length, ctx.grid.length),
+  layerVisits: sharedTable && ctx.layers ? ctx.layers.visits.map(() => createVisitCounts(ctx.grid[0].length, ctx.grid.length)) : [],
+  rng: carRng(seed, id),
+  state: startEpisode(ctx.start),
+  stats: NEW_CAR_STATS,
+});
+
+// Same car with new hyperparameters; switching to or from Double Q restarts its own tables
+export const reconfigureCar = (car: SquadCar, params: Hyperparams, ctx: SquadContext): SquadCar => {
+  const needsReset = car.tables !== null && (params.algorithm === 'DOUBLE_Q') !== (car.tables.qTableB !== null);
+  return {
+    ...car,
+    params,
+    tables: needsReset ? freshTables(ctx, params) : car.tables,
+    state: { ...car.state, nextAction: null },
+  };
+};
+
+export const carTables = (car: SquadCar, shared: QTables) => car.tables ?? shared;
+
+// Greedy path length from the start under a set of tables, null if it never arrives
+export const greedyPathLength = (tables: QTables, { grid, start, goal, env }: SquadContext) => {
+  const path = greedyPath(grid, start, goal, env, p => getQValues(tables, p));
+  return path ? path.length - 1 : null;
+};
+
+// One step for one car. Mutates the car (and whichever tables it writes into).
+// Cars on the shared table play by the main car's extra goals and checkpoints,
+// so they learn the same (x, y, mask) values; cars with their own tables use the plain maze.
+export const stepCar = (car: SquadCar, ctx: SquadContext): StepResult => {
+  const tables = carTables(car, ctx.shared);
+  const params = car.tables ? car.params : { ...car.params, algorithm: ctx.algorithm };
+  const layers = !car.tables && ctx.layers ? { tables: ctx.layers.tables, visits: car.layerVisits } : null;
+  const result = stepAgent(
+    {
+      ...tables,
+      grid: ctx.grid,
+      start: ctx.start,
+      env: ctx.env,
+      params,
+      rng: car.rng,
+      visits: car.visits,
+      dyna: null,
+      objectives: car.tables ? NO_OBJECTIVES : ctx.objectives,
+      layers,
+    },
+    car.state,
+  );
+  car.state = result.state;
+
+  if (result.summary) {
+    const episodes = car.stats.episodes + 1;
+    car.stats = {
+      episodes,
+      goals: car.stats.goals + (result.reachedGoal ? 1 : 0),
+      lastReturn: result.summary.return,
+      convergence: updateConvergence(car.stats.convergence, episodes, greedyPathLength(tables, ctx)),
+    };
+    car.params = { ...car.params, epsilon: decayExploration(car.params.epsilon, car.params.exploration, episodes) };
+  }
+  return result;
+};
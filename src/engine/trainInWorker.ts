@@ -0,0 +1,27 @@
+import type { TrainRequest, TrainResult } from './trainer';
+import type { KinematicTrainRequest, KinematicTrainResult } from './kinematics';
+import type { LinearTrainRequest, LinearTrainResult } from './linear';
+import type { ExperimentRequest, ExperimentRow } from './experiments';
+
+// Spawns a one-shot worker for a batch of headless episodes
+const runInWorker = <Result>(request: TrainRequest | KinematicTrainRequest | LinearTrainRequest | ExperimentRequest) =>
+  new Promise<Result>((resolve, reject) => {
+    const worker = new Worker(new URL('./trainer.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<Result>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Training worker failed'));
+    };
+    worker.postMessage(request);
+  });
+
+export const trainInWorker = (request: TrainRequest) => runInWorker<TrainResult>(request);
+
+export const trainKinematicInWorker = (request: KinematicTrainRequest) => runInWorker<KinematicTrainResult>(request);
+
+export const trainLinearInWorker = (request: LinearTrainRequest) => runInWorker<LinearTrainResult>(request);
+
+export const runExperimentInWorker = (request: ExperimentRequest) => runInWorker<ExperimentRow>(request);
@@ -0,0 +1,232 @@
+import { getMaxSteps, gridHeight, transition, type EnvConfig, type Grid, type Pos } from './gridWorld';
+import type { Hyperparams, VisitCounts } from './agent';
+import { getQValues, tdUpdate, type Algorithm, type QTables, type TdUpdate } from './algorithms';
+import type { EpisodeRecord, EpisodeSummary } from './history';
+import { chooseAction, decayExploration } from './exploration';
+import { advanceWorld, boostEpsilon, type DynamicWorld, type Dynamics } from './dynamics';
+import { observe, plan, type Dyna } from './dyna';
+import { applyObjectives, stackLayers, stackedPos, type CheckpointLayers, type Objectives } from './objectives';
+import { addRecording, type EpisodeRecording, type RecordedStep } from './recording';
+import type { Rng } from './rng';
+
+// --- Episode bookkeeping carried between steps ---
+// The kinematic car's state extends Pos with heading and speed.
+export type EpisodeState<S extends Pos = Pos> = {
+  pos: S;
+  moves: number;
+  totalReward: number;
+  nextAction: number | null; // SARSA's already-chosen a'
+  tdErrorSum: number;        // Sum of |TD error| so far this episode
+  mask: number;              // Checkpoints collected so far, bit i for checkpoint i
+};
+
+// Everything a step needs besides the episode state
+export type AgentContext = QTables & {
+  grid: Grid;
+  start: Pos;
+  env: EnvConfig;
+  params: Hyperparams;
+  rng: Rng;
+  visits: VisitCounts; // Incremented for every (s, a) taken
+  dyna: Dyna | null;   // Model and planning settings when the car plans (Dyna-Q)
+  objectives: Objectives;
+  layers: CheckpointLayers | null; // Q-values per checkpoint mask, when there are checkpoints
+};
+
+// The Bellman update applied on one step, as shown by the cell inspector
+export type CellUpdate = Omit<TdUpdate, 'nextAction'> & {
+  pos: Pos;      // s, the cell whose Q-value changed
+  action: number;
+  reward: number;
+  next: Pos;     // s'
+  algorithm: Algorithm;
+  gamma: number;
+  target: number;
+};
+
+export type StepResult = {
+  state: EpisodeState;  // State to continue from (already reset if the episode ended)
+  pos: Pos;             // Where the agent actually landed this step
+  action: number;
+  reward: number;
+  tdError: number;
+  reachedGoal: boolean;
+  episodeEnded: boolean;
+  summary: EpisodeSummary | null; // Set when the episode ended on this step
+  update: CellUpdate;
+  planned: Pos[];                 // Cells updated by planning after the real step
+};
+
+export const startEpisode = <S extends Pos>(start: S): EpisodeState<S> => ({
+  pos: start,
+  moves: 0,
+  totalReward: 0,
+  nextAction: null,
+  tdErrorSum: 0,
+  mask: 0,
+});
+
+// What a step observed, as far as episode bookkeeping cares
+export type StepOutcome<S extends Pos> = {
+  next: S;
+  reward: number;
+  done: boolean;
+  reachedGoal: boolean;
+  hitWall: boolean;
+  tdError: number;
+  nextAction: number | null;
+  mask?: number; // Checkpoints collected after the step, for the grid car
+};
+
+// Advance the episode after one update. It ends on a terminal transition or
+// at the step limit; a timeout is not terminal, so the update still bootstrapped.
+export const finishStep = <S extends Pos>(
+  state: EpisodeState<S>,
+  start: S,
+  env: EnvConfig,
+  grid: Grid,
+  { next, reward, done, reachedGoal, hitWall, tdError, nextAction, mask = 0 }: StepOutcome<S>,
+): { state: EpisodeState<S>; summary: EpisodeSummary | null } => {
+  const moves = state.moves + 1;
+  const totalReward = state.totalReward + reward;
+  const tdErrorSum = state.tdErrorSum + Math.abs(tdError);
+
+  if (done || moves >= getMaxSteps(env, grid)) {
+    const summary: EpisodeSummary = {
+      steps: moves,
+      return: totalReward,
+      outcome: reachedGoal ? 'GOAL' : !done ? 'TIMEOUT' : hitWall ? 'WALL' : 'PIT',
+      meanTdError: tdErrorSum / moves,
+    };
+    return { state: startEpisode(start), summary };
+  }
+  return { state: { pos: next, moves, totalReward, nextAction, tdErrorSum, mask }, summary: null };
+};
+
+// --- The TD Control Step ---
+// Mutates the Q-table(s) in place and returns the next episode state.
+// With checkpoints, the state's mask picks the layer of Q-values: the layers
+// are stacked so that (x, y, mask) is an ordinary cell of one tall table.
+export const stepAgent = (ctx: AgentContext, state: EpisodeState): StepResult => {
+  const { grid, start, env, params, rng, layers } = ctx;
+  const height = gridHeight(grid);
+  const stack = layers ? stackLayers(ctx, ctx.visits, layers) : { tables: ctx, visits: ctx.visits };
+  const { visits } = stack;
+  const s = stackedPos(state.pos, state.mask, height);
+
+  // 1. Choose Action (Epsilon Greedy), unless SARSA already committed to one
+  const action = params.algorithm === 'SARSA' && state.nextAction !== null
+    ? state.nextAction
+    : chooseAction(getQValues(stack.tables, s), params.epsilon, params.exploration, rng, visits[s.y][s.x]);
+
+  // 2. Observe Reward & Next State
+  const { next, reward, done, reachedGoal, hitWall, mask } = applyObjectives(
+    transition(grid, state.pos, action, env, rng), ctx.objectives, state.mask, env,
+  );
+  const s2 = stackedPos(next, mask, height);
+
+  // 3. Update Q-Table (Bellman Equation)
+  const { nextAction, ...applied } = tdUpdate(stack.tables, params, s, action, reward, s2, done, rng, { visits: visits[s2.y][s2.x] });
+  const { tdError } = applied;
+  const { algorithm, gamma } = params;
+  const update: CellUpdate = { ...applied, pos: state.pos, action, reward, next, algorithm, gamma, target: reward + gamma * applied.nextValue };
+  visits[s.y][s.x][action]++;
+
+  // 4. Plan: replay remembered transitions through the same update (Dyna-Q)
+  let planned: Pos[] = [];
+  if (ctx.dyna) {
+    observe(ctx.dyna.model, s, action, reward, s2, done);
+    planned = plan(stack.tables, params, ctx.dyna, rng).map(p => ({ x: p.x, y: p.y % height }));
+  }
+
+  // Handle Episode End
+  const finished = finishStep(state, start, env, grid, { next, reward, done, reachedGoal, hitWall, tdError, nextAction, mask });
+  const episodeEnded = finished.summary !== null;
+  return {
+    ...finished,
+    pos: next,
+    action,
+    reward,
+    tdError,
+    reachedGoal,
+    episodeEnded,
+    update,
+    planned,
+  };
+};
+
+// The replayable part of a step
+export const toRecordedStep = ({ update, pos }: StepResult): RecordedStep => ({
+  state: update.pos,
+  action: update.action,
+  reward: update.reward,
+  next: pos,
+});
+
+// --- Headless fast-forward ---
+export type TrainRequest = QTables & {
+  visits: VisitCounts;
+  dyna: Dyna | null;
+  layers: CheckpointLayers | null;
+  grid: Grid;
+  start: Pos;
+  goal: Pos;
+  dynamics: Dynamics;
+  objectives: Objectives;
+  env: EnvConfig;
+  params: Hyperparams;
+  episodes: number;
+  firstEpisode: number; // Number given to the first trained episode in the history
+  seed: number;
+};
+
+export type TrainResult = QTables & {
+  visits: VisitCounts;
+  dyna: Dyna | null; // The model grows during training
+  layers: CheckpointLayers | null;
+  epsilon: number;   // Epsilon after per-episode decay
+  episodes: number;  // Episodes actually completed
+  steps: number;
+  history: EpisodeRecord[];
+  recordings: EpisodeRecording[]; // Trajectories, thinned to the recording caps
+  world: DynamicWorld;            // Grid, goal and dynamics as training left them
+};
+
+// Runs whole episodes back to back without rendering. Mutates the request's tables.
+// Every episode ends within the step limit, so this always terminates.
+export const trainEpisodes = (request: TrainRequest, rng: Rng): TrainResult => {
+  const { grid, start, goal, dynamics, env, qTable, qTableB, visits, dyna, objectives, layers, episodes } = request;
+  const ctx: AgentContext = { grid, start, env, qTable, qTableB, visits, dyna, objectives, layers, params: { ...request.params }, rng };
+  let world: DynamicWorld = { grid, goal, dynamics };
+
+  const history: EpisodeRecord[] = [];
+  let recordings: EpisodeRecording[] = [];
+  let trajectory: RecordedStep[] = [];
+  let state = startEpisode(start);
+  let completed = 0;
+  let steps = 0;
+
+  while (completed < episodes) {
+    const result = stepAgent(ctx, state);
+    steps++;
+    state = result.state;
+    trajectory.push(toRecordedStep(result));
+    if (result.summary) {
+      const episode = request.firstEpisode + completed;
+      history.push({ ...result.summary, episode, epsilon: ctx.params.epsilon });
+      recordings = addRecording(recordings, { episode, outcome: result.summary.outcome, return: result.summary.return, steps: trajectory });
+      trajectory = [];
+      completed++;
+      ctx.params.epsilon = decayExploration(ctx.params.epsilon, ctx.params.exploration, episode);
+    }
+
+    // Scripted environment changes take effect from the next step
+    const ended = result.summary ? request.firstEpisode + completed - 1 : null;
+    const advanced = advanceWorld(world, start, steps, ended, rng, [state.pos]);
+    world = advanced.world;
+    ctx.grid = world.grid;
+    if (advanced.changed) ctx.params.epsilon = boostEpsilon(ctx.params.epsilon, world.dynamics);
+  }
+
+  return { qTable, qTableB, visits, dyna, layers, epsilon: ctx.params.epsilon, episodes: completed, steps, history, recordings, world };
+};
@@ -0,0 +1,20 @@
+import { createRng } from './rng';
+import { trainEpisodes, type TrainRequest } from './trainer';
+import { trainKinematicEpisodes, type KinematicTrainRequest } from './kinematics';
+import { trainLinearEpisodes, type LinearTrainRequest } from './linear';
+import { runExperiment, type ExperimentRequest } from './experiments';
+
+type WorkerRequest = TrainRequest | KinematicTrainRequest | LinearTrainRequest | ExperimentRequest;
+
+const handle = (request: WorkerRequest) => {
+  if ('config' in request) return runExperiment(request); // Seeds its own runs
+  const rng = createRng(request.seed);
+  if ('model' in request) return trainLinearEpisodes(request, rng);
+  return 'tables' in request ? trainKinematicEpisodes(request, rng) : trainEpisodes(request, rng);
+};
+
+// --- Training Worker ---
+// Runs headless episodes off the main thread and posts the Q-table(s) back.
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  self.postMessage(handle(e.data));
+};
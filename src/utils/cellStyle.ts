@@ -0,0 +1,48 @@
+import { getBestAction } from '../engine/agent';
+import type { HeatRange } from '../engine/heatmap';
+
+// --- Helper: Cell colors and policy arrows shared by the DOM and canvas renderers ---
+
+// Signed layers run red below the midpoint and green above it; the midpoint is
+// zero when the data straddles it, otherwise the middle of the range
+export const scaleMidpoint = ({ min, max }: HeatRange) => (min < 0 && max > 0 ? 0 : (min + max) / 2);
+
+const green = (alpha: number) => `rgba(34, 197, 94, ${alpha})`;
+const red = (alpha: number) => `rgba(239, 68, 68, ${alpha})`;
+const blue = (alpha: number) => `rgba(59, 130, 246, ${alpha})`;
+
+// Color of one layer value on the scale of its heatmap, or null to leave the cell white
+export const heatColor = (value: number, range: HeatRange, signed: boolean): string | null => {
+  if (signed) {
+    const mid = scaleMidpoint(range);
+    if (value > mid) return green((0.6 * (value - mid)) / (range.max - mid));
+    if (value < mid) return red((0.5 * (mid - value)) / (mid - range.min));
+    return null;
+  }
+  const spread = range.max - range.min;
+  return spread > 0 && value > range.min ? blue((0.6 * (value - range.min)) / spread) : null;
+};
+
+// The same scale as a CSS gradient, low to high, for the legend
+export const scaleGradient = (signed: boolean) =>
+  signed ? `linear-gradient(to right, ${red(0.5)}, white, ${green(0.6)})` : `linear-gradient(to right, white, ${blue(0.6)})`;
+
+// Per-action triangles in a unit cell, indexed like ACTIONS: up, right, down, left
+export const ACTION_TRIANGLES: [number, number][][] = [
+  [[0, 0], [1, 0], [0.5, 0.5]],
+  [[1, 0], [1, 1], [0.5, 0.5]],
+  [[1, 1], [0, 1], [0.5, 0.5]],
+  [[0, 1], [0, 0], [0.5, 0.5]],
+];
+
+// The action an arrow points at, or null when the cell has no clear preference
+export const policyArrow = (qs: number[], useHeuristic: boolean): number | null => {
+  // In standard mode, skip unvisited cells. In heuristic mode, arrows always exist.
+  if (!useHeuristic && qs.every(v => v === 0)) return null;
+
+  const bestIdx = getBestAction(qs);
+
+  // Filter weak signals
+  if (!useHeuristic && Math.abs(qs[bestIdx]) < 0.1) return null;
+  return bestIdx;
+};